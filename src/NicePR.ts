@@ -1,20 +1,46 @@
 import * as vscode from "vscode";
-import { API, Change, Commit, Repository, Status } from "./git.js";
+import { Change, Commit, Repository, Status } from "./git.js";
 import * as cp from "child_process";
-import { Rebaser, ResponseSchema } from "./Rebaser.js";
+import {
+  Commit as RebaserCommit,
+  CommitAuthor,
+  DependencyStrategy,
+  FileChange,
+  Rebaser,
+  RebasePlan,
+  RebasePlanSchema,
+  RebaserState,
+  ResponseSchema,
+} from "./Rebaser.js";
 import { promisify } from "util";
 import {
   executeGitCommand,
   executeGitCommandWithBinaryOutput,
+  executeGitCommandWithInput,
+  cleanupCommitMessage,
+  CommitMessageRules,
+  getCommitMessageErrors,
+  getCommitSubject,
   FileChangeType,
   getBranchCommits,
+  getConflictedFiles,
+  getGitFileEntry,
+  getRebaseProgress,
   getFileOperationChangeFromChanges as getFileOperationChangeFromChanges,
   getParentCommitHash,
+  getTreeMergedWithBase,
+  getGitVersion,
+  globToRegExp,
+  RebaseProgress,
+  runShellCommand,
 } from "./utils.js";
-import { join } from "path";
+import { dirname, join, resolve } from "path";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
 import OpenaI from "openai";
 import { zodResponseFormat } from "openai/helpers/zod";
 import { trackEvent } from "./analytics.js";
+import { getHeuristicSuggestions } from "./heuristics.js";
 
 const openai = new OpenaI({
   baseURL: vscode.workspace.getConfiguration("nicePr").get("openAiBaseUrl"),
@@ -79,6 +105,16 @@ export function toMultiFileDiffEditorUris(
   }
 }
 
+export function fromDiffUri(uri: vscode.Uri) {
+  const [, hash, ...fileNameParts] = uri.path.split("/");
+
+  return {
+    side: uri.authority === "original" ? "original" : "modified",
+    hash,
+    fileName: fileNameParts.join("/"),
+  } as const;
+}
+
 export class InMemoryContentProvider
   implements vscode.TextDocumentContentProvider
 {
@@ -104,12 +140,53 @@ export class InMemoryContentProvider
   }
 }
 
-const BACKUP_BRANCH_PREFIX = "nice-pr-backup";
+// Backups are refs outside of branches, with a generation per rewrite like refs/nice-pr/backups/<branch>/<date>
+const BACKUP_REF_PREFIX = "refs/nice-pr/backups";
+// Backups used to be a single branch per branch, like nice-pr-backup-<branch>. They are still
+// listed with the other backups, so they can be restored or pruned after upgrading
+const LEGACY_BACKUP_BRANCH_PREFIX = "nice-pr-backup";
+
+export type Backup = {
+  ref: string;
+  hash: string;
+  subject: string;
+  date: Date;
+};
+const SESSION_STORAGE_KEY_PREFIX = "nicePr.session";
+// Set while updating from base, so that rebase mode starts when the update completes, even after a reload
+const UPDATE_FROM_BASE_STORAGE_KEY_PREFIX = "nicePr.updateFromBase";
+
+// An unfinished rebase, stored in workspace state to be resumed after a reload
+type RebaseSession = {
+  head: string;
+  commits: string[];
+  mode: "REBASING" | "READY_TO_PUSH";
+  state: RebaserState;
+  changesCount: number;
+};
+
+// The rebaser keeps the author of the original commits, to preserve them when rewriting, and
+// which of them are merges, as those can not be rewritten with "git rebase"
+function toRebaserCommit(commit: Commit): RebaserCommit {
+  return {
+    hash: commit.hash,
+    message: commit.message,
+    author:
+      commit.authorName && commit.authorEmail && commit.authorDate
+        ? {
+            name: commit.authorName,
+            email: commit.authorEmail,
+            date: new Date(commit.authorDate).toISOString(),
+          }
+        : undefined,
+    isMerge: commit.parents.length > 1,
+  };
+}
 
 type RebaseMode =
   | {
       mode: "IDLE";
-      hasBackupBranch: boolean;
+      hasBackups: boolean;
     }
   | {
       mode: "REBASING";
@@ -124,6 +201,11 @@ type RebaseMode =
     }
   | {
       mode: "SUGGESTING";
+    }
+  | {
+      mode: "UPDATING_FROM_BASE";
+      progress: RebaseProgress;
+      conflicts: string[];
     };
 
 type RebaseFileOperation =
@@ -143,10 +225,21 @@ type RebaseFileOperation =
     };
 
 type RebaseCommitOperation = {
+  hash: string;
   message: string;
+  author?: CommitAuthor;
   fileOperations: RebaseFileOperation[];
 };
 
+type RebaseResult = {
+  // The commits of the branch before rewriting it, from newest to oldest
+  previousCommits: string[];
+  previousHead: string;
+  head: string;
+  // The commits created, by the hash of the rebase commit they were created from
+  createdCommits: Array<{ hash: string; createdHash: string }>;
+};
+
 type ShowFileDiffOptions = {
   fileName: string;
   hash: string;
@@ -158,17 +251,29 @@ export class NicePR {
   readonly onDidChange = this._onDidChange.event;
   private _mode: RebaseMode = {
     mode: "IDLE",
-    hasBackupBranch: false,
+    hasBackups: false,
   };
   private _contentProvider: InMemoryContentProvider;
   private _activeDiffs = new Map<string, Set<string>>();
-  private _api: API;
   private _repo: Repository;
   private _commits: Commit[];
   private _branch: string;
-  // TODO: Use git reflog and parse out the likely target branch
-  private _targetBranch: string = "main";
+  private _targetBranch: string;
+  private _baseRemote: string;
+  private _pushRemote: string;
   private _stateChangeListenerDisposer: vscode.Disposable;
+  private _sessionListenerDisposer: vscode.Disposable;
+  // Saving and clearing the session run one after the other, so an earlier save can not
+  // bring back a cleared session
+  private _sessionQueue: Promise<void> = Promise.resolve();
+  private _messageEditorListenersDisposer: vscode.Disposable;
+  private _configurationListenerDisposer: vscode.Disposable;
+  private _outputChannel: vscode.OutputChannel;
+  // The rebase commit that failed the verify command on the last push
+  private _failedVerificationHash?: string;
+  // The commit message files being edited, by their path
+  private _messageEditors = new Map<string, string>();
+  private _storage: vscode.Memento;
 
   private set mode(value: RebaseMode) {
     this._mode = value;
@@ -179,8 +284,8 @@ export class NicePR {
     );
     vscode.commands.executeCommand(
       "setContext",
-      "nicePr.hasBackupBranch",
-      this._mode.mode === "IDLE" && this._mode.hasBackupBranch
+      "nicePr.hasBackups",
+      this._mode.mode === "IDLE" && this._mode.hasBackups
     );
     this._onDidChange.fire();
   }
@@ -191,46 +296,324 @@ export class NicePR {
 
   constructor(options: {
     contentProvider: InMemoryContentProvider;
-    api: API;
     repo: Repository;
     branch: string;
     commits: Commit[];
+    targetBranch: string;
+    baseRemote: string;
+    pushRemote: string;
+    storage: vscode.Memento;
+    outputChannel: vscode.OutputChannel;
   }) {
-    this._api = options.api;
     this._repo = options.repo;
     this._branch = options.branch;
     this._commits = options.commits;
+    this._targetBranch = options.targetBranch;
+    this._baseRemote = options.baseRemote;
+    this._pushRemote = options.pushRemote;
     this._contentProvider = options.contentProvider;
+    this._storage = options.storage;
+    this._outputChannel = options.outputChannel;
 
     // Set initial rebase state context
     vscode.commands.executeCommand("setContext", "nicePr.isRebasing", false);
     this._stateChangeListenerDisposer = this._repo.state.onDidChange(
       async () => {
-        this._commits = await getBranchCommits(this._repo, this._branch);
+        await this.refreshCommits();
+
+        // Resolving conflicts changes the state of the repository
+        if (this.mode.mode === "UPDATING_FROM_BASE") {
+          await this.updateFromBaseProgress();
+          return;
+        }
+
         this._onDidChange.fire();
       }
     );
 
-    // We set it again as checking backup branch is async
-    this.setRebaseMode("IDLE");
+    // Any change while rebasing is stored, so that it can be resumed
+    this._sessionListenerDisposer = this.onDidChange(() => this.saveSession());
+
+    // Commit messages are validated again when the rules change
+    this._configurationListenerDisposer =
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration("nicePr.commitMessageRules")) {
+          this._onDidChange.fire();
+        }
+      });
+
+    this._messageEditorListenersDisposer = vscode.Disposable.from(
+      vscode.workspace.onDidSaveTextDocument((document) =>
+        this.saveCommitMessage(document)
+      ),
+      vscode.workspace.onDidCloseTextDocument((document) => {
+        if (this._messageEditors.delete(document.uri.fsPath)) {
+          rm(dirname(document.uri.fsPath), { recursive: true, force: true });
+        }
+      })
+    );
+
+    // We set it again as checking backup branch is async. An update from base in progress
+    // is shown again, as the branch is initialized again when the rebase detaches HEAD
+    this.setRebaseMode("IDLE")
+      .then(() => this.updateFromBaseProgress())
+      .then(() => {
+        if (this.mode.mode === "IDLE") {
+          return this.resumeSession();
+        }
+      });
+  }
+
+  private get sessionStorageKey() {
+    return `${SESSION_STORAGE_KEY_PREFIX}:${this._repo.rootUri.fsPath}:${this._branch}`;
+  }
+
+  private get updateFromBaseStorageKey() {
+    return `${UPDATE_FROM_BASE_STORAGE_KEY_PREFIX}:${this._repo.rootUri.fsPath}:${this._branch}`;
+  }
+
+  private async refreshCommits() {
+    this._commits = await getBranchCommits(
+      this._repo,
+      this._branch,
+      this._targetBranch,
+      this._baseRemote
+    );
+  }
+
+  private async getHead() {
+    return (await executeGitCommand(this._repo, "rev-parse HEAD")).trim();
+  }
+
+  private queueSessionUpdate(update: () => Promise<void>) {
+    const result = this._sessionQueue.then(update);
+
+    this._sessionQueue = result.catch(() => {});
+
+    return result;
+  }
+
+  private saveSession() {
+    return this.queueSessionUpdate(async () => {
+      if (this.mode.mode !== "REBASING" && this.mode.mode !== "READY_TO_PUSH") {
+        return;
+      }
+
+      const { mode, rebaser } = this.mode;
+      const head = await this.getHead();
+      const session: RebaseSession = {
+        head,
+        commits: rebaser.getOriginalCommits().map((commit) => commit.hash),
+        mode,
+        state: rebaser.getState(),
+        changesCount: rebaser.getChangesCount(),
+      };
+
+      await this._storage.update(this.sessionStorageKey, session);
+    });
+  }
+
+  private clearSession() {
+    return this.queueSessionUpdate(async () => {
+      await this._storage.update(this.sessionStorageKey, undefined);
+    });
+  }
+
+  private async resumeSession() {
+    const session = this._storage.get<RebaseSession>(this.sessionStorageKey);
+
+    if (!session) {
+      return;
+    }
+
+    // The session is only valid for the exact same commits it was created from
+    if (
+      session.head !== (await this.getHead()) ||
+      String(session.commits) !==
+        String(this._commits.map((commit) => commit.hash))
+    ) {
+      await this.clearSession();
+      return;
+    }
+
+    const choice = await vscode.window.showInformationMessage(
+      `You have an unfinished rebase of ${this._branch}. Do you want to resume it?`,
+      "Resume",
+      "Discard"
+    );
+
+    if (choice === "Discard") {
+      await this.clearSession();
+    }
+
+    if (choice !== "Resume" || this.mode.mode !== "IDLE") {
+      return;
+    }
+
+    try {
+      const rebaser = new Rebaser(await this.getCommitsWithDiffs());
+
+      rebaser.setState(session.state);
+      rebaser.setChangesCount(session.changesCount);
+
+      this.mode = {
+        mode: session.mode,
+        rebaser,
+      };
+    } catch (error) {
+      await this.clearSession();
+      vscode.window.showErrorMessage(
+        `Failed to resume rebase: ${String(error)}`
+      );
+    }
+  }
+
+  private async getCommitsWithDiffs() {
+    const commits = this._commits.slice().reverse();
+
+    if (commits.some((commit) => commit.parents.length > 1)) {
+      return this.getLinearizedCommitsWithDiffs(commits);
+    }
+
+    return Promise.all(
+      commits.map((commit) =>
+        executeGitCommand(
+          this._repo,
+          `diff --unified=0 ${getParentCommitHash(commit)} ${commit.hash}`
+        ).then((diff) => ({ commit: toRebaserCommit(commit), diff }))
+      )
+    );
+  }
+
+  // Merge commits are linearized by diffing each commit as if the base was merged into it. That makes
+  // the merged in upstream content part of the base, leaving merge commits with only their resolutions
+  private async getLinearizedCommitsWithDiffs(commits: Commit[]) {
+    const { major, minor } = await getGitVersion(this._repo);
+
+    // Every merged tree would fail as a conflict with an older git
+    if (major < 2 || (major === 2 && minor < 38)) {
+      throw new Error(
+        `Branches with merge commits need git 2.38 or newer, but git ${major}.${minor} is installed`
+      );
+    }
+
+    const initialHash = await this.getInitialHash();
+    const commitsWithDiffs: Array<{ commit: RebaserCommit; diff: string }> = [];
+    let previousTree = (
+      await executeGitCommand(this._repo, `rev-parse ${initialHash}^{tree}`)
+    ).trim();
+
+    for (const commit of commits) {
+      const tree = await getTreeMergedWithBase(
+        this._repo,
+        commit.hash,
+        initialHash
+      );
+
+      // A commit conflicting with the base can not stand on its own, so its changes
+      // becomes part of the next commit that does, at the latest the merge resolving it
+      if (!tree) {
+        commitsWithDiffs.push({ commit: toRebaserCommit(commit), diff: "" });
+        continue;
+      }
+
+      const diff = await executeGitCommand(
+        this._repo,
+        `diff --unified=0 ${previousTree} ${tree}`
+      );
+
+      commitsWithDiffs.push({ commit: toRebaserCommit(commit), diff });
+      previousTree = tree;
+    }
+
+    return commitsWithDiffs;
+  }
+
+  private async createBackup(branch: string) {
+    // Colons are not allowed in refs
+    const date = new Date().toISOString().replace(/:/g, "-");
+
+    await executeGitCommand(
+      this._repo,
+      `update-ref ${BACKUP_REF_PREFIX}/${branch}/${date} refs/heads/${branch}`
+    );
+  }
+
+  // The backups of the current branch, from newest to oldest
+  async getBackups(): Promise<Backup[]> {
+    const prefix = `${BACKUP_REF_PREFIX}/${this._branch}/`;
+    const output = await executeGitCommand(
+      this._repo,
+      `for-each-ref --sort=-refname --format="%(refname)%00%(objectname)%00%(subject)" ${prefix}`
+    );
+    const legacyBackup = await this.getLegacyBackup();
+    const backups: Backup[] = output
+      .split("\n")
+      .filter(Boolean)
+      .map((line) => {
+        const [ref, hash, subject] = line.split("\0");
+
+        return { ref, hash, subject, name: ref.substring(prefix.length) };
+      })
+      // Backups of branches nested in this branch name share the prefix
+      .filter(({ name }) => !name.includes("/"))
+      .map(({ name, ...backup }) => ({
+        ...backup,
+        date: new Date(
+          name.replace(/T(\d+)-(\d+)-(\d+)/, (_, hours, minutes, seconds) =>
+            [`T${hours}`, minutes, seconds].join(":")
+          )
+        ),
+      }));
+
+    if (!legacyBackup) {
+      return backups;
+    }
+
+    return [...backups, legacyBackup].sort(
+      (a, b) => b.date.getTime() - a.date.getTime()
+    );
+  }
+
+  // The time of a legacy backup is not recorded, so it gets the date of the commit it backs up
+  private async getLegacyBackup(): Promise<Backup | undefined> {
+    const ref = `refs/heads/${LEGACY_BACKUP_BRANCH_PREFIX}-${this._branch}`;
+    const [hash, subject, date] = (
+      await executeGitCommand(
+        this._repo,
+        `for-each-ref --format="%(objectname)%00%(subject)%00%(committerdate:iso-strict)" ${ref}`
+      )
+    )
+      .trim()
+      .split("\0");
+
+    return hash ? { ref, hash, subject, date: new Date(date) } : undefined;
   }
 
-  private checkBackupBranch() {
+  private async checkBackups() {
     if (!this._branch) {
       throw new Error("No branch available");
     }
 
-    const backupBranch = `${BACKUP_BRANCH_PREFIX}-${this._branch}`;
+    return (await this.getBackups()).length > 0;
+  }
 
-    return executeGitCommand(this._repo, `rev-parse --verify ${backupBranch}`)
-      .then(() => true)
-      .catch(() => false);
+  get failedVerificationHash() {
+    return this._failedVerificationHash;
   }
 
   get commits(): Commit[] {
     return this._commits;
   }
 
+  get targetBranch(): string {
+    return this._targetBranch;
+  }
+
+  get baseRemote(): string {
+    return this._baseRemote;
+  }
+
   get branch(): string | undefined {
     return this._branch;
   }
@@ -240,22 +623,56 @@ export class NicePR {
   }
 
   getRebaser() {
-    if (
-      this.mode.mode === "IDLE" ||
-      this.mode.mode === "PUSHING" ||
-      this.mode.mode === "SUGGESTING"
-    ) {
+    if (this.mode.mode !== "REBASING" && this.mode.mode !== "READY_TO_PUSH") {
       throw new Error("No rebaser available");
     }
 
     return this.mode.rebaser;
   }
 
+  private async getOpenAiSuggestions(
+    commitMessages: string[],
+    diffs: ReturnType<Rebaser["getSuggestionDiffs"]>
+  ) {
+    /**
+     IMPROVEMENTS:
+     - We could get the description of the PR?
+     - Be even more concise about what relevant changes are
+     */
+    const response = await openai.chat.completions.create({
+      model: "gpt-4o",
+      messages: [
+        {
+          role: "system",
+          content: vscode.workspace
+            .getConfiguration("nicePr")
+            .get("suggestionInstructions")!,
+        },
+        {
+          role: "user",
+          content: `These are commit message of the original commits:
+                  
+${commitMessages.map((message) => "- " + message).join("\n")}
+
+And these are the diffs:
+
+${JSON.stringify(diffs)}`,
+        },
+      ],
+      response_format: zodResponseFormat(ResponseSchema, "rebase"),
+      temperature: 0.2,
+    });
+
+    return ResponseSchema.parse(
+      JSON.parse(response.choices[0].message.content!)
+    );
+  }
+
   private async checkNeedsRebaseFromTarget(): Promise<boolean> {
     // Pull target branch to be able to diff correctly
     await executeGitCommand(
       this._repo,
-      `fetch origin ${this._targetBranch}:${this._targetBranch}`
+      `fetch ${this._baseRemote} ${this._targetBranch}:${this._targetBranch}`
     );
 
     // Check if we are diverging from target branch
@@ -265,18 +682,16 @@ export class NicePR {
 
     if (hasDivergingLogs) {
       const choice = await vscode.window.showWarningMessage(
-        `You need to rebase onto ${this._targetBranch} before being able to edit this branch`,
-        "Rebase"
+        `You need to update from ${this._targetBranch} before being able to edit this branch`,
+        "Update from base"
       );
 
-      if (choice === "Rebase") {
+      if (choice === "Update from base") {
         try {
-          // @ts-ignore
-          await this._repo.repository.rebase(this._targetBranch);
-        } catch {
-          vscode.commands.executeCommand("workbench.view.scm");
-          vscode.window.showWarningMessage(
-            `Please resolve and stage conflicts to continue. Once you are done, you can change the history`
+          await this.updateFromBase();
+        } catch (error) {
+          vscode.window.showErrorMessage(
+            `Failed to update from ${this._targetBranch}: ${String(error)}`
           );
         }
       }
@@ -287,6 +702,145 @@ export class NicePR {
     return false;
   }
 
+  // Rebases the branch onto the target branch. The rebase stops at each commit with conflicts,
+  // which are resolved in the merge editor before continuing
+  private async updateFromBase() {
+    await this.createBackup(this._branch);
+    await this._storage.update(this.updateFromBaseStorageKey, true);
+
+    trackEvent({ name: "updated_from_base", props: { result: "started" } });
+
+    await this.runRebase(this._targetBranch);
+  }
+
+  private async runRebase(args: string) {
+    try {
+      // The messages of the commits are kept, rather than opening an editor
+      await executeGitCommandWithInput(this._repo, `rebase ${args}`, {
+        env: { GIT_EDITOR: "true" },
+      });
+    } catch (error) {
+      // Stopping at a commit also fails the command
+      if (!(await getRebaseProgress(this._repo))) {
+        throw error;
+      }
+
+      await this.updateFromBaseProgress();
+
+      // Without conflicts git stopped for another reason, like a commit becoming empty
+      if (
+        this.mode.mode === "UPDATING_FROM_BASE" &&
+        !this.mode.conflicts.length
+      ) {
+        throw error;
+      }
+
+      return;
+    }
+
+    await this.updateFromBaseProgress();
+  }
+
+  // Shows the commit the rebase stopped at and opens its conflicts, or starts rebase mode when the update completed
+  private async updateFromBaseProgress() {
+    const progress = await getRebaseProgress(this._repo);
+
+    if (progress) {
+      const conflicts = await getConflictedFiles(this._repo);
+      const isNewStep =
+        this.mode.mode !== "UPDATING_FROM_BASE" ||
+        this.mode.progress.step !== progress.step;
+
+      this.mode = { mode: "UPDATING_FROM_BASE", progress, conflicts };
+
+      if (isNewStep) {
+        for (const fileName of conflicts) {
+          this.openConflict(fileName);
+        }
+      }
+
+      return;
+    }
+
+    const wasUpdating = this._storage.get<boolean>(
+      this.updateFromBaseStorageKey
+    );
+
+    if (!wasUpdating) {
+      // The rebase was aborted outside of the extension
+      if (this.mode.mode === "UPDATING_FROM_BASE") {
+        await this.setRebaseMode("IDLE");
+      }
+
+      return;
+    }
+
+    await this._storage.update(this.updateFromBaseStorageKey, undefined);
+
+    // The rebase could also have been aborted outside of the extension
+    const isUpToDate = await executeGitCommand(
+      this._repo,
+      `merge-base --is-ancestor ${this._targetBranch} HEAD`
+    ).then(
+      () => true,
+      () => false
+    );
+
+    trackEvent({
+      name: "updated_from_base",
+      props: { result: isUpToDate ? "completed" : "aborted" },
+    });
+
+    await this.refreshCommits();
+    await this.setRebaseMode("IDLE");
+
+    if (isUpToDate) {
+      await this.setRebaseMode("REBASING");
+    }
+  }
+
+  openConflict(fileName: string) {
+    return vscode.commands.executeCommand(
+      "git.openMergeEditor",
+      vscode.Uri.joinPath(this._repo.rootUri, fileName)
+    );
+  }
+
+  async continueUpdateFromBase() {
+    if (this.mode.mode !== "UPDATING_FROM_BASE") {
+      throw new Error("Not updating from base");
+    }
+
+    if ((await getConflictedFiles(this._repo)).length) {
+      throw new Error(
+        "Complete the merge of all conflicting files before continuing"
+      );
+    }
+
+    await this.runRebase("--continue");
+  }
+
+  async skipUpdateFromBaseCommit() {
+    if (this.mode.mode !== "UPDATING_FROM_BASE") {
+      throw new Error("Not updating from base");
+    }
+
+    await this.runRebase("--skip");
+  }
+
+  async abortUpdateFromBase() {
+    if (this.mode.mode !== "UPDATING_FROM_BASE") {
+      throw new Error("Not updating from base");
+    }
+
+    await this._storage.update(this.updateFromBaseStorageKey, undefined);
+    await executeGitCommand(this._repo, "rebase --abort");
+
+    trackEvent({ name: "updated_from_base", props: { result: "aborted" } });
+
+    await this.setRebaseMode("IDLE");
+  }
+
   async setRebaseMode(mode: RebaseMode["mode"]) {
     if (this.mode.mode === "SUGGESTING") {
       return;
@@ -294,10 +848,21 @@ export class NicePR {
 
     switch (mode) {
       case "IDLE": {
+        // Leaving a rebase, by cancelling or pushing, ends the session
+        const isLeavingRebase =
+          this.mode.mode === "REBASING" ||
+          this.mode.mode === "READY_TO_PUSH" ||
+          this.mode.mode === "PUSHING";
+
         this.mode = {
           mode: "IDLE",
-          hasBackupBranch: await this.checkBackupBranch(),
+          hasBackups: await this.checkBackups(),
         };
+
+        // Cleared after leaving the mode, so saves from the rebase are queued before it
+        if (isLeavingRebase) {
+          await this.clearSession();
+        }
         break;
       }
       case "SUGGESTING": {
@@ -307,6 +872,11 @@ export class NicePR {
           return;
         }
 
+        // Repositories can require suggestions to stay local, so the provider can be set per repository
+        const provider = vscode.workspace
+          .getConfiguration("nicePr", this._repo.rootUri)
+          .get<"openai" | "heuristics">("suggestionProvider", "openai");
+
         // Show the progress indicator
         await vscode.window.withProgress(
           {
@@ -316,63 +886,26 @@ export class NicePR {
           },
           async (progress) => {
             const start = Date.now();
-            const commitsWithDiffs = await Promise.all(
-              this._commits
-                .slice()
-                .reverse()
-                .map((commit) =>
-                  executeGitCommand(
-                    this._repo,
-                    `diff --unified=0 ${getParentCommitHash(commit)} ${
-                      commit.hash
-                    }`
-                  ).then((diff) => ({ commit, diff }))
-                )
-            );
+            const commitsWithDiffs = await this.getCommitsWithDiffs();
 
             try {
               const rebaser = new Rebaser(commitsWithDiffs);
               const diffs = rebaser.getSuggestionDiffs();
+              const suggestions =
+                provider === "heuristics"
+                  ? getHeuristicSuggestions(diffs)
+                  : await this.getOpenAiSuggestions(
+                      commitsWithDiffs.map(({ commit }) => commit.message),
+                      diffs
+                    );
 
-              /**
-             IMPROVEMENTS:
-             - We could get the description of the PR?
-             - Be even more concise about what relevant changes are
-             */
-              const response = await openai.chat.completions.create({
-                model: "gpt-4o",
-                messages: [
-                  {
-                    role: "system",
-                    content: vscode.workspace
-                      .getConfiguration("nicePr")
-                      .get("suggestionInstructions")!,
-                  },
-                  {
-                    role: "user",
-                    content: `These are commit message of the original commits:
-                  
-${commitsWithDiffs.map(({ commit }) => "- " + commit.message).join("\n")}
-
-And these are the diffs:
-
-${JSON.stringify(diffs)}`,
-                  },
-                ],
-                response_format: zodResponseFormat(ResponseSchema, "rebase"),
-                temperature: 0.2,
-              });
-
-              const parsedResponse = ResponseSchema.parse(
-                JSON.parse(response.choices[0].message.content!)
-              );
-
-              rebaser.setSuggestedRebaseCommits(parsedResponse);
+              rebaser.setSuggestedRebaseCommits(suggestions);
 
               trackEvent({
                 name: "suggested_commits",
                 props: {
                   duration: Date.now() - start,
+                  provider,
                   result: "success",
                 },
               });
@@ -385,6 +918,7 @@ ${JSON.stringify(diffs)}`,
               trackEvent({
                 name: "suggested_commits",
                 props: {
+                  provider,
                   result: "failure",
                   error: String(error),
                 },
@@ -423,23 +957,9 @@ ${JSON.stringify(diffs)}`,
               return;
             }
 
-            const diffs = await Promise.all(
-              this._commits
-                .slice()
-                .reverse()
-                .map((commit) =>
-                  executeGitCommand(
-                    this._repo,
-                    `diff --unified=0 ${getParentCommitHash(commit)} ${
-                      commit.hash
-                    }`
-                  ).then((diff) => ({ commit, diff }))
-                )
-            );
-
             this.mode = {
               mode: "REBASING",
-              rebaser: new Rebaser(diffs),
+              rebaser: new Rebaser(await this.getCommitsWithDiffs()),
             };
           }
         );
@@ -463,6 +983,31 @@ ${JSON.stringify(diffs)}`,
           return;
         }
 
+        // Empty commits are not created, so their messages do not matter
+        let invalidMessage: { subject: string; errors: string[] } | undefined;
+
+        try {
+          invalidMessage = rebasedCommits
+            .filter((commit) => commit.files.length)
+            .map((commit) => ({
+              subject: getCommitSubject(commit.message),
+              errors: this.getCommitMessageErrors(commit.message),
+            }))
+            .find(({ errors }) => errors.length);
+        } catch (error) {
+          vscode.window.showErrorMessage(String(error).replace("Error: ", ""));
+          return;
+        }
+
+        if (invalidMessage) {
+          vscode.window.showErrorMessage(
+            `Invalid commit message detected: ${
+              invalidMessage.subject
+            }. ${invalidMessage.errors.join(". ")}.`
+          );
+          return;
+        }
+
         this.mode = {
           mode: "READY_TO_PUSH",
           rebaser: this.mode.rebaser,
@@ -470,49 +1015,283 @@ ${JSON.stringify(diffs)}`,
         break;
       }
       case "PUSHING": {
-        if (this.mode.mode !== "READY_TO_PUSH") {
-          throw new Error("Can not push without rebasing");
-        }
-
-        await vscode.window.withProgress(
-          {
-            location: vscode.ProgressLocation.Notification,
-            title: "Rebasing and pushing to remote...",
-            cancellable: false,
-          },
-          async (progress) => {
-            const start = Date.now();
-            await this.rebase();
-            await executeGitCommand(
-              this._repo,
-              `push origin ${this._branch} --force-with-lease`
-            );
-            trackEvent({
-              name: "pushed_to_remote",
-              props: {
-                result: "success",
-                duration: Date.now() - start,
-              },
-            });
-            this.setRebaseMode("IDLE");
-          }
-        );
-
-        return;
+        return this.applyRebase({ push: true });
       }
     }
 
     this._onDidChange.fire();
   }
 
-  addNewCommit(message: string) {
-    const rebaser = this.getRebaser();
-
-    rebaser.addCommit(message);
+  // Writes the rebased commits to the branch, or to a new branch leaving the current one intact,
+  // and optionally pushes it
+  async applyRebase({
+    push,
+    newBranch,
+  }: {
+    push: boolean;
+    newBranch?: string;
+  }) {
+    if (this.mode.mode !== "READY_TO_PUSH") {
+      throw new Error("Can not apply without rebasing");
+    }
+
+    const rebaser = this.mode.rebaser;
+    let rebaseResult: RebaseResult | undefined;
+
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: push ? "Rebasing and pushing to remote..." : "Rebasing...",
+        cancellable: false,
+      },
+      async (progress) => {
+        const start = Date.now();
+
+        // Nothing can be edited or applied again while the branch is rewritten
+        this.mode = { mode: "PUSHING" };
+
+        try {
+          rebaseResult = await this.rebase(rebaser, newBranch);
+        } catch (error) {
+          this.mode = { mode: "READY_TO_PUSH", rebaser };
+
+          trackEvent({
+            name: "pushed_to_remote",
+            props: { result: "failure", error: String(error) },
+          });
+
+          const choice = await vscode.window.showErrorMessage(
+            String(error).replace("Error: ", ""),
+            "Show Output"
+          );
+
+          if (choice === "Show Output") {
+            this._outputChannel.show();
+          }
+
+          return;
+        }
+
+        trackEvent({
+          name: "rebase_applied",
+          props: { push, isNewBranch: Boolean(newBranch) },
+        });
+
+        // The history is rewritten, so even if pushing fails we are done rebasing
+        await this.setRebaseMode("IDLE");
+
+        if (push) {
+          await this.push(newBranch ?? this._branch, start);
+        }
+      }
+    );
+
+    // Stacked branches are still built on the current branch when applying to a new branch
+    if (rebaseResult && !newBranch) {
+      await this.updateStackedBranches(rebaseResult);
+    }
+  }
+
+  private async push(branch: string, start: number) {
+    const command = `git push --force-with-lease ${
+      branch === this._branch ? "" : "--set-upstream "
+    }${this._pushRemote} ${branch}`;
+
+    this._outputChannel.clear();
+    this._outputChannel.show(true);
+    this._outputChannel.appendLine(`> ${command}`);
+
+    const exitCode = await runShellCommand(
+      command,
+      this._repo.rootUri.fsPath,
+      (data) => this._outputChannel.append(data)
+    );
+
+    if (exitCode !== 0) {
+      trackEvent({
+        name: "pushed_to_remote",
+        props: {
+          result: "failure",
+          error: `Push exited with code ${exitCode}`,
+        },
+      });
+
+      const choice = await vscode.window.showErrorMessage(
+        `Failed to push ${branch} to ${this._pushRemote}. The new history is applied locally, so you can push it yourself`,
+        "Show Output"
+      );
+
+      if (choice === "Show Output") {
+        this._outputChannel.show();
+      }
+
+      return;
+    }
+
+    trackEvent({
+      name: "pushed_to_remote",
+      props: {
+        result: "success",
+        duration: Date.now() - start,
+      },
+    });
+
+    vscode.window.showInformationMessage(
+      `Pushed ${branch} to ${this._pushRemote}`
+    );
+  }
+
+  addNewCommit(message: string) {
+    const rebaser = this.getRebaser();
+
+    const hash = rebaser.addCommit(message);
 
     trackEvent({ name: "commit_added" });
 
     this._onDidChange.fire();
+
+    return hash;
+  }
+
+  getCommitMessageErrors(message: string) {
+    return getCommitMessageErrors(
+      message,
+      vscode.workspace
+        .getConfiguration("nicePr", this._repo.rootUri)
+        .get<CommitMessageRules>("commitMessageRules", {})
+    );
+  }
+
+  private getDependencyStrategy() {
+    return vscode.workspace
+      .getConfiguration("nicePr", this._repo.rootUri)
+      .get<DependencyStrategy>("dependencyStrategy", "warn");
+  }
+
+  private showCascadedChanges(cascadedChanges: FileChange[]) {
+    if (!cascadedChanges.length) {
+      return;
+    }
+
+    vscode.window.showInformationMessage(
+      `Moved ${cascadedChanges.length} related change${
+        cascadedChanges.length === 1 ? "" : "s"
+      } along to keep dependencies in order: ${Array.from(
+        new Set(cascadedChanges.map((change) => change.path))
+      ).join(", ")}`
+    );
+  }
+
+  // Moves commits and changes to a commit, the trash or a new commit as a single undo step. When
+  // a move fails everything is reverted, so the change is only announced after the batch
+  moveItems(
+    hashes: string[],
+    changes: FileChange[],
+    targetRef: string | "trash" | { newCommitMessage: string }
+  ) {
+    const rebaser = this.getRebaser();
+    const dependencyStrategy = this.getDependencyStrategy();
+    let cascadedChanges: FileChange[];
+
+    try {
+      cascadedChanges = rebaser.batch(() => {
+        const targetHash =
+          typeof targetRef === "string"
+            ? targetRef
+            : rebaser.addCommit(targetRef.newCommitMessage);
+
+        return [
+          ...hashes.flatMap((hash) =>
+            rebaser.moveCommit(hash, targetHash, dependencyStrategy)
+          ),
+          ...(changes.length
+            ? rebaser.moveChanges(changes, targetHash, dependencyStrategy)
+            : []),
+        ];
+      });
+    } finally {
+      this._onDidChange.fire();
+      // The moved items can span several files and commits, so we refresh every diff shown
+      this.updateDiffViews();
+    }
+
+    if (typeof targetRef !== "string") {
+      trackEvent({ name: "commit_added" });
+    }
+
+    this.showCascadedChanges(cascadedChanges);
+  }
+
+  moveFormattingChanges(target: "trash" | "commit") {
+    const rebaser = this.getRebaser();
+
+    const cascadedChanges = rebaser.moveFormattingChanges(
+      target,
+      this.getDependencyStrategy()
+    );
+
+    trackEvent({ name: "moved_formatting_changes", props: { target } });
+
+    this._onDidChange.fire();
+    this.showCascadedChanges(cascadedChanges);
+    this.updateDiffViews();
+  }
+
+  splitCommit(hash: string, splitBy: "file" | "directory" | "group") {
+    const rebaser = this.getRebaser();
+    const groups = Object.entries(
+      vscode.workspace
+        .getConfiguration("nicePr")
+        .get<Record<string, string>>("commitSplitGroups", {})
+    ).map(([groupName, glob]) => ({
+      groupName,
+      regExp: globToRegExp(glob),
+    }));
+
+    const cascadedChanges = rebaser.splitCommit(
+      hash,
+      (fileName) => {
+        switch (splitBy) {
+          case "file": {
+            return fileName;
+          }
+          case "directory": {
+            const parts = fileName.split("/");
+
+            return parts.length > 1 ? parts[0] : ".";
+          }
+          case "group": {
+            return (
+              groups.find(({ regExp }) => regExp.test(fileName))?.groupName ??
+              "other"
+            );
+          }
+        }
+      },
+      this.getDependencyStrategy()
+    );
+
+    trackEvent({ name: "commit_split", props: { splitBy } });
+
+    this._onDidChange.fire();
+    this.showCascadedChanges(cascadedChanges);
+  }
+
+  squashCommit(hash: string, targetHash: string, message?: string) {
+    const rebaser = this.getRebaser();
+
+    const cascadedChanges = rebaser.squashCommit(
+      hash,
+      targetHash,
+      message,
+      this.getDependencyStrategy()
+    );
+
+    trackEvent({ name: "commit_squashed" });
+
+    this._onDidChange.fire();
+    this.showCascadedChanges(cascadedChanges);
+    this.updateDiffViews();
   }
 
   removeCommit(hash: string) {
@@ -524,6 +1303,77 @@ ${JSON.stringify(diffs)}`,
     this._onDidChange.fire();
   }
 
+  // Opens the message in an editor tab like COMMIT_EDITMSG, where saving updates the commit. Every
+  // commit gets its own directory, as the COMMIT_EDITMSG name gives the tab the git-commit language
+  async editCommitMessage(hash: string) {
+    const commit = this.getRebaser().rebaseCommits.find(
+      (commit) => commit.hash === hash
+    );
+
+    if (!commit) {
+      throw new Error("Could not find commit");
+    }
+
+    const uri = vscode.Uri.file(
+      join(
+        resolve(
+          this._repo.rootUri.fsPath,
+          (
+            await executeGitCommand(
+              this._repo,
+              `rev-parse --git-path nice-pr/messages/${hash}`
+            )
+          ).trim()
+        ),
+        "COMMIT_EDITMSG"
+      )
+    );
+
+    this._messageEditors.set(uri.fsPath, hash);
+
+    await vscode.workspace.fs.createDirectory(
+      vscode.Uri.file(dirname(uri.fsPath))
+    );
+    await vscode.workspace.fs.writeFile(
+      uri,
+      Buffer.from(
+        `${commit.message}
+
+# Please enter the commit message for your changes. Lines starting
+# with '#' will be ignored. Save to update the commit, an empty
+# message keeps the current one.
+`
+      )
+    );
+
+    await vscode.window.showTextDocument(uri);
+  }
+
+  private async saveCommitMessage(document: vscode.TextDocument) {
+    const hash = this._messageEditors.get(document.uri.fsPath);
+
+    // The rebase might have ended or the commit removed since opening the message
+    if (
+      !hash ||
+      (this.mode.mode !== "REBASING" && this.mode.mode !== "READY_TO_PUSH") ||
+      !this.mode.rebaser.rebaseCommits.some((commit) => commit.hash === hash)
+    ) {
+      return;
+    }
+
+    const message = cleanupCommitMessage(document.getText());
+
+    if (!message) {
+      vscode.window.showWarningMessage(
+        "The commit message is empty, keeping the current message"
+      );
+      return;
+    }
+
+    await this.updateCommitMessage(hash, message);
+    trackEvent({ name: "changed_commit_message" });
+  }
+
   async updateCommitMessage(hash: string, newMessage: string) {
     const rebaser = this.getRebaser();
 
@@ -532,23 +1382,208 @@ ${JSON.stringify(diffs)}`,
     this._onDidChange.fire();
   }
 
-  async showCommitDiff(commit: {
-    message: string;
-    hash: string;
-  }): Promise<void> {
-    if (!this._api) {
+  setCommitAuthor(hash: string, authorHash?: string) {
+    const rebaser = this.getRebaser();
+
+    rebaser.setCommitAuthor(hash, authorHash);
+    trackEvent({ name: "commit_author_changed" });
+
+    this._onDidChange.fire();
+  }
+
+  splitChange(fileName: string, change: FileChange, splitPoints: number[]) {
+    const rebaser = this.getRebaser();
+
+    rebaser.splitChange(fileName, change, splitPoints);
+    trackEvent({ name: "split_change" });
+
+    this._onDidChange.fire();
+  }
+
+  splitChangesBySelection({
+    fileName,
+    hash,
+    selection,
+    side,
+  }: ShowFileDiffOptions & {
+    selection: { from: number; to: number };
+    side: "original" | "modified";
+  }) {
+    const rebaser = this.getRebaser();
+
+    rebaser.splitChangesBySelection(fileName, hash, selection, side);
+    trackEvent({ name: "split_change" });
+
+    this._onDidChange.fire();
+  }
+
+  undo() {
+    const rebaser = this.getRebaser();
+
+    if (!rebaser.undo()) {
       return;
     }
 
-    const repo = this._api.repositories[0];
-    const commitParentId = `${commit.hash}^`;
+    trackEvent({ name: "undo" });
+
+    this._onDidChange.fire();
+    this.updateDiffViews();
+  }
+
+  redo() {
+    const rebaser = this.getRebaser();
+
+    if (!rebaser.redo()) {
+      return;
+    }
+
+    trackEvent({ name: "redo" });
+
+    this._onDidChange.fire();
+    this.updateDiffViews();
+  }
+
+  async exportPlan() {
+    const rebaser = this.getRebaser();
+    const uri = await vscode.window.showSaveDialog({
+      defaultUri: vscode.Uri.joinPath(
+        this._repo.rootUri,
+        `${this._branch.replace(/\//g, "-")}.nice-pr.json`
+      ),
+      filters: { "Nice PR plan": ["json"] },
+    });
+
+    if (!uri) {
+      return;
+    }
+
+    await vscode.workspace.fs.writeFile(
+      uri,
+      Buffer.from(JSON.stringify(rebaser.getPlan(), null, 2))
+    );
+
+    trackEvent({ name: "plan_exported" });
+  }
+
+  async importPlan() {
+    // Importing replaces the rebase in progress, including its undo history
+    if (this.mode.mode === "REBASING" || this.mode.mode === "READY_TO_PUSH") {
+      const choice = await vscode.window.showWarningMessage(
+        "Importing a plan replaces the rebase in progress and its undo history",
+        { modal: true },
+        "Import"
+      );
+
+      if (choice !== "Import") {
+        return;
+      }
+    }
+
+    const [uri] =
+      (await vscode.window.showOpenDialog({
+        defaultUri: this._repo.rootUri,
+        filters: { "Nice PR plan": ["json"] },
+        canSelectMany: false,
+      })) ?? [];
+
+    if (!uri) {
+      return;
+    }
+
+    let plan: RebasePlan;
+
+    try {
+      plan = RebasePlanSchema.parse(
+        JSON.parse(
+          Buffer.from(await vscode.workspace.fs.readFile(uri)).toString()
+        )
+      );
+    } catch (error) {
+      vscode.window.showErrorMessage(`Invalid plan file: ${String(error)}`);
+      return;
+    }
+
+    const needsRebaseFromTarget = await this.checkNeedsRebaseFromTarget();
+
+    if (needsRebaseFromTarget) {
+      return;
+    }
+
+    // The plan references the changes of the original history, so it is always
+    // applied to a new rebaser
+    const rebaser = new Rebaser(await this.getCommitsWithDiffs());
+    const mismatches = rebaser.getPlanMismatches(plan);
+
+    if (mismatches.length) {
+      vscode.window.showErrorMessage(
+        `The plan does not match the changes of ${this._branch}`,
+        {
+          modal: true,
+          detail: mismatches.join("\n"),
+        }
+      );
+      return;
+    }
+
+    rebaser.applyPlan(plan);
 
-    const changes = await repo.diffBetween(commitParentId, commit.hash);
+    trackEvent({ name: "plan_imported" });
 
-    const title = `${commit.message} (${commit.hash.substring(0, 7)})`;
+    this.mode = {
+      mode: "REBASING",
+      rebaser,
+    };
+  }
+
+  async showRebaseTodo() {
+    const result = this.getRebaser().getRebaseTodo();
+
+    if (!result.isExpressible) {
+      vscode.window.showWarningMessage(
+        "This rebase can not be expressed as a git-rebase-todo, as it moves individual changes between commits",
+        {
+          modal: true,
+          detail: result.reasons.join("\n"),
+        }
+      );
+      return;
+    }
+
+    const mergeBase = await this.getInitialHash();
+    const document = await vscode.workspace.openTextDocument({
+      language: "git-rebase",
+      content: [
+        `# Run "git rebase -i ${mergeBase}" and replace its todo with these lines`,
+        "",
+        ...result.todo,
+      ].join("\n"),
+    });
+
+    await vscode.window.showTextDocument(document);
+
+    trackEvent({ name: "rebase_todo_shown" });
+  }
+
+  async showCommitDiff(commit: {
+    message: string;
+    hash: string;
+  }): Promise<void> {
+    await this.openMultiDiffEditor(
+      `${getCommitSubject(commit.message)} (${commit.hash.substring(0, 7)})`,
+      `${commit.hash}^`,
+      commit.hash
+    );
+  }
+
+  private async openMultiDiffEditor(
+    title: string,
+    originalRef: string,
+    modifiedRef: string
+  ) {
+    const changes = await this._repo.diffBetween(originalRef, modifiedRef);
     const multiDiffSourceUri = vscode.Uri.from({
       scheme: "scm-history-item",
-      path: `${repo.rootUri.path}/${commitParentId}..${commit.hash}`,
+      path: `${this._repo.rootUri.path}/${originalRef}..${modifiedRef}`,
     });
 
     const resources: {
@@ -557,7 +1592,7 @@ ${JSON.stringify(diffs)}`,
     }[] = [];
     for (const change of changes) {
       resources.push(
-        toMultiFileDiffEditorUris(change, commitParentId, commit.hash)
+        toMultiFileDiffEditorUris(change, originalRef, modifiedRef)
       );
     }
 
@@ -580,13 +1615,12 @@ ${JSON.stringify(diffs)}`,
     message: string;
     hash: string;
   }): Promise<void> {
-    if (!this._api) {
-      return;
-    }
-
     const rebaser = this.getRebaser();
     const commitParentId = `${commit.hash}^`;
-    const title = `${commit.message} (${commit.hash.substring(0, 7)})`;
+    const title = `${getCommitSubject(commit.message)} (${commit.hash.substring(
+      0,
+      7
+    )})`;
     const multiDiffSourceUri = vscode.Uri.from({
       scheme: "scm-history-item",
       path: `${this._repo.rootUri.path}/rebased/${commitParentId}..${commit.hash}`,
@@ -630,14 +1664,12 @@ ${JSON.stringify(diffs)}`,
   }
 
   private async getInitialHash() {
-    if (!this._api || !this._branch) {
+    if (!this._branch) {
       return "";
     }
 
-    const repo = this._api.repositories[0];
-
-    const mergeBase = await repo.getMergeBase(
-      "origin/" + this._targetBranch,
+    const mergeBase = await this._repo.getMergeBase(
+      `${this._baseRemote}/${this._targetBranch}`,
       this._branch
     );
 
@@ -652,7 +1684,7 @@ ${JSON.stringify(diffs)}`,
     fileName: string,
     hash: string
   ): Promise<string> {
-    if (!this._api || !this._branch) {
+    if (!this._branch) {
       return "";
     }
 
@@ -686,7 +1718,7 @@ ${JSON.stringify(diffs)}`,
     const activeDiffHashesForFile =
       this._activeDiffs.get(fileName) || new Set();
 
-    activeDiffHashesForFile.add(fileName);
+    activeDiffHashesForFile.add(ref);
 
     this._activeDiffs.set(fileName, activeDiffHashesForFile);
 
@@ -759,8 +1791,19 @@ ${JSON.stringify(diffs)}`,
       }
     );
   }
-  async rebase() {
-    const rebaser = this.getRebaser();
+  // Updates the diff views of all files shown, as long as their commit still exists
+  async updateDiffViews() {
+    const hashes = this.getRebaser().rebaseCommits.map((commit) => commit.hash);
+
+    for (const [fileName, activeHashes] of this._activeDiffs) {
+      for (const hash of activeHashes) {
+        if (hashes.includes(hash)) {
+          await this.updateDiffView({ fileName, hash });
+        }
+      }
+    }
+  }
+  async rebase(rebaser: Rebaser, newBranch?: string): Promise<RebaseResult> {
     const commits = rebaser.rebaseCommits;
     const commitsToHandle = commits
       .filter((commit) => Boolean(commit.files.length))
@@ -848,85 +1891,421 @@ ${JSON.stringify(diffs)}`,
       }
 
       commitOperations.push({
+        hash: commit.hash,
         message: commit.message,
+        author: commit.author,
         fileOperations,
       });
     }
 
-    // Create backup branch
     const currentBranch = this._branch;
-    const backupBranch = `${BACKUP_BRANCH_PREFIX}-${currentBranch}`;
-
-    // Create or update backup branch without checking it out
-    await executeGitCommand(this._repo, `branch -f ${backupBranch}`);
 
-    await executeGitCommand(
-      this._repo,
-      `reset --hard ${await this.getInitialHash()}`
+    await this.createBackup(currentBranch);
+
+    // The commits are written with a temporary index, so that the working tree and the index of the
+    // user are left untouched
+    const indexFile = resolve(
+      this._repo.rootUri.fsPath,
+      (
+        await executeGitCommand(
+          this._repo,
+          "rev-parse --git-path nice-pr-index"
+        )
+      ).trim()
     );
+    const previousHead = await this.getHead();
+    let head = await this.getInitialHash();
+    const createdCommits: Array<{ hash: string; createdHash: string }> = [];
+    // Plumbing does not sign by itself, so we follow the configuration of the user
+    const isSigning =
+      (
+        await executeGitCommand(this._repo, "config --bool commit.gpgsign")
+          // Not being configured is an error
+          .catch(() => "")
+      ).trim() === "true";
 
-    async function ensureDirectoryExists(filePath: vscode.Uri) {
-      try {
-        await vscode.workspace.fs.createDirectory(
-          vscode.Uri.joinPath(filePath, "..")
-        );
-      } catch (err) {
-        // Directory might already exist, which is fine
+    try {
+      await executeGitCommandWithInput(this._repo, `read-tree ${head}`, {
+        indexFile,
+      });
+
+      for (const commitOperation of commitOperations) {
+        for (const fileOperation of commitOperation.fileOperations) {
+          switch (fileOperation.type) {
+            case "write": {
+              const entry = await getGitFileEntry(
+                this._repo,
+                fileOperation.fileName,
+                { indexFile }
+              );
+              const hash = (
+                await executeGitCommandWithInput(
+                  this._repo,
+                  "hash-object -w --stdin",
+                  { input: fileOperation.content }
+                )
+              ).trim();
+
+              await executeGitCommandWithInput(
+                this._repo,
+                `update-index --add --cacheinfo ${
+                  entry?.mode ?? "100644"
+                },${hash},"${fileOperation.fileName}"`,
+                { indexFile }
+              );
+              break;
+            }
+            case "rename": {
+              const entry = await getGitFileEntry(
+                this._repo,
+                fileOperation.oldFileName,
+                { indexFile }
+              );
+
+              if (!entry) {
+                throw new Error(
+                  `Could not find ${fileOperation.oldFileName} to rename`
+                );
+              }
+
+              await executeGitCommandWithInput(
+                this._repo,
+                `update-index --force-remove "${fileOperation.oldFileName}"`,
+                { indexFile }
+              );
+              await executeGitCommandWithInput(
+                this._repo,
+                `update-index --add --cacheinfo ${entry.mode},${entry.hash},"${fileOperation.fileName}"`,
+                { indexFile }
+              );
+              break;
+            }
+            case "remove": {
+              await executeGitCommandWithInput(
+                this._repo,
+                `update-index --force-remove "${fileOperation.fileName}"`,
+                { indexFile }
+              );
+              break;
+            }
+          }
+        }
+
+        const tree = (
+          await executeGitCommandWithInput(this._repo, "write-tree", {
+            indexFile,
+          })
+        ).trim();
+
+        head = (
+          await executeGitCommandWithInput(
+            this._repo,
+            `commit-tree ${tree} -p ${head}${isSigning ? " -S" : ""} -F -`,
+            {
+              input: commitOperation.message,
+              env: commitOperation.author
+                ? {
+                    GIT_AUTHOR_NAME: commitOperation.author.name,
+                    GIT_AUTHOR_EMAIL: commitOperation.author.email,
+                    GIT_AUTHOR_DATE: commitOperation.author.date,
+                  }
+                : undefined,
+            }
+          )
+        ).trim();
+
+        createdCommits.push({ hash: commitOperation.hash, createdHash: head });
       }
+    } finally {
+      await rm(indexFile, { force: true });
     }
 
-    for (const commitOperation of commitOperations) {
-      for (const fileOperation of commitOperation.fileOperations) {
-        const workspacePath = this._repo.rootUri.fsPath;
-        const filePath = vscode.Uri.file(
-          join(workspacePath, fileOperation.fileName)
+    await this.verifyCommits(rebaser, createdCommits);
+
+    if (newBranch) {
+      // Creates the branch only if it does not exist, and checks it out without touching the working tree
+      await executeGitCommand(
+        this._repo,
+        `update-ref -m "nice-pr: rebase" refs/heads/${newBranch} ${head} ""`
+      );
+      await executeGitCommand(
+        this._repo,
+        `symbolic-ref -m "nice-pr: rebase" HEAD refs/heads/${newBranch}`
+      );
+    } else {
+      // Only moves the branch if it has not changed while rewriting
+      await executeGitCommand(
+        this._repo,
+        `update-ref -m "nice-pr: rebase" refs/heads/${currentBranch} ${head} ${previousHead}`
+      );
+    }
+
+    await this.updateIndexToHead(previousHead, head);
+
+    return {
+      previousCommits: rebaser
+        .getOriginalCommits()
+        .map((commit) => commit.hash),
+      previousHead,
+      head,
+      createdCommits,
+    };
+  }
+  // Runs the verify command against every created commit in a scratch worktree, like "git rebase --exec",
+  // throwing at the first failing commit before the branch is moved
+  private async verifyCommits(
+    rebaser: Rebaser,
+    commits: Array<{ hash: string; createdHash: string }>
+  ) {
+    const verifyCommand = vscode.workspace
+      .getConfiguration("nicePr", this._repo.rootUri)
+      .get<string>("verifyCommand", "");
+
+    this._failedVerificationHash = undefined;
+
+    if (!verifyCommand || !commits.length) {
+      return;
+    }
+
+    this._outputChannel.clear();
+    this._outputChannel.show(true);
+
+    await this.withScratchWorktree(async (worktree) => {
+      for (const { hash, createdHash } of commits) {
+        const subject = getCommitSubject(
+          rebaser.rebaseCommits.find((commit) => commit.hash === hash)
+            ?.message ?? createdHash
         );
 
-        switch (fileOperation.type) {
-          case "write": {
-            await ensureDirectoryExists(filePath);
-            await vscode.workspace.fs.writeFile(
-              filePath,
-              Buffer.from(fileOperation.content)
-            );
-            break;
-          }
-          case "rename": {
-            await vscode.workspace.fs.rename(
-              vscode.Uri.file(join(workspacePath, fileOperation.oldFileName)),
-              filePath
-            );
-            break;
-          }
-          case "remove": {
-            await vscode.workspace.fs.delete(filePath);
-            break;
-          }
+        await executeGitCommand(
+          this._repo,
+          `-C "${worktree}" checkout --detach --force ${createdHash}`
+        );
+
+        this._outputChannel.appendLine(`> ${verifyCommand} (${subject})`);
+
+        const exitCode = await runShellCommand(
+          verifyCommand,
+          worktree,
+          (data) => this._outputChannel.append(data)
+        );
+
+        if (exitCode !== 0) {
+          this._failedVerificationHash = hash;
+          this._onDidChange.fire();
+
+          throw new Error(
+            `Verification failed for commit "${subject}" with exit code ${exitCode}`
+          );
         }
       }
+    });
+  }
+  // Runs git operations needing a working tree without touching the one of the user
+  private async withScratchWorktree<T>(
+    callback: (worktree: string) => Promise<T>
+  ) {
+    const directory = await mkdtemp(join(tmpdir(), "nice-pr-"));
+    const worktree = join(directory, "worktree");
+
+    await executeGitCommand(this._repo, `worktree add --detach "${worktree}"`);
 
-      await executeGitCommand(this._repo, `add .`);
+    try {
+      return await callback(worktree);
+    } finally {
       await executeGitCommand(
         this._repo,
-        `commit --no-verify -m "${commitOperation.message}"`
+        `worktree remove --force "${worktree}"`
+      ).catch(() => {});
+      await rm(directory, { recursive: true, force: true });
+    }
+  }
+  // Branches built on the rewritten branch still point to its previous commits. Like "git rebase --update-refs"
+  // they are rebased onto the created commits, mapping the commit they were branched from to its new commit
+  private async updateStackedBranches({
+    previousCommits,
+    previousHead,
+    head,
+    createdCommits,
+  }: RebaseResult) {
+    const oldestCommitHash = previousCommits[previousCommits.length - 1];
+
+    if (!oldestCommitHash) {
+      return;
+    }
+
+    const stackedBranches = (
+      await executeGitCommand(
+        this._repo,
+        `for-each-ref --contains ${oldestCommitHash} --format="%(refname:short)" refs/heads`
+      )
+    )
+      .split("\n")
+      .filter(
+        (branch) =>
+          branch &&
+          branch !== this._branch &&
+          !branch.startsWith(LEGACY_BACKUP_BRANCH_PREFIX)
+      );
+
+    if (!stackedBranches.length) {
+      return;
+    }
+
+    const choice = await vscode.window.showInformationMessage(
+      `${stackedBranches.join(", ")} ${
+        stackedBranches.length === 1 ? "is" : "are"
+      } built on ${this._branch}. Do you want to update ${
+        stackedBranches.length === 1 ? "it" : "them"
+      } onto the new history?`,
+      "Update",
+      "Skip"
+    );
+
+    if (choice !== "Update") {
+      return;
+    }
+
+    const updatedBranches: string[] = [];
+    const failedBranches: string[] = [];
+
+    await this.withScratchWorktree(async (worktree) => {
+      for (const branch of stackedBranches) {
+        const forkPoint = (
+          await executeGitCommand(
+            this._repo,
+            `merge-base ${previousHead} ${branch}`
+          )
+        ).trim();
+        const newForkPoint =
+          forkPoint === previousHead
+            ? head
+            : createdCommits.find((commit) => commit.hash === forkPoint)
+                ?.createdHash;
+
+        // The commit the branch was built on is no longer part of the history
+        if (!newForkPoint) {
+          failedBranches.push(branch);
+          continue;
+        }
+
+        await this.createBackup(branch);
+
+        try {
+          await executeGitCommand(
+            this._repo,
+            `-C "${worktree}" rebase --no-verify --onto ${newForkPoint} ${forkPoint} ${branch}`
+          );
+          updatedBranches.push(branch);
+        } catch {
+          await executeGitCommand(
+            this._repo,
+            `-C "${worktree}" rebase --abort`
+          ).catch(() => {});
+          failedBranches.push(branch);
+        }
+      }
+    });
+
+    if (updatedBranches.length) {
+      vscode.window.showInformationMessage(
+        `Updated ${updatedBranches.join(", ")} onto the new history of ${
+          this._branch
+        }`
+      );
+    }
+
+    if (failedBranches.length) {
+      vscode.window.showWarningMessage(
+        `Could not update ${failedBranches.join(", ")}, as ${
+          failedBranches.length === 1 ? "it" : "they"
+        } would conflict or ${
+          failedBranches.length === 1 ? "was" : "were"
+        } built on a commit no longer in the history. Update by rebasing manually`
       );
     }
   }
-  async revertToBackupBranch() {
+  // The index of the user still points to the files of the previous head. Files without staged changes
+  // are moved along, which leaves any trashed changes as unstaged changes in the working tree
+  private async updateIndexToHead(previousHead: string, head: string) {
+    const fileNames = (
+      await executeGitCommand(
+        this._repo,
+        `diff-tree -r -z --name-only ${previousHead} ${head}`
+      )
+    )
+      .split("\0")
+      .filter(Boolean);
+
+    for (const fileName of fileNames) {
+      const indexEntry = await getGitFileEntry(this._repo, fileName);
+      const previousEntry = await getGitFileEntry(this._repo, fileName, {
+        treeish: previousHead,
+      });
+
+      if (indexEntry?.hash !== previousEntry?.hash) {
+        continue;
+      }
+
+      const entry = await getGitFileEntry(this._repo, fileName, {
+        treeish: head,
+      });
+
+      await executeGitCommand(
+        this._repo,
+        entry
+          ? `update-index --add --cacheinfo ${entry.mode},${entry.hash},"${fileName}"`
+          : `update-index --force-remove "${fileName}"`
+      );
+    }
+  }
+  // Restores the branch to a backup, after backing up the current history so that it can be restored as well
+  async restoreBackup(backup: Backup, push: boolean) {
     if (this.mode.mode !== "IDLE") {
-      throw new Error("Can not revert to backup branch while rebasing");
+      throw new Error("Can not restore a backup while rebasing");
+    }
+
+    const start = Date.now();
+
+    await this.createBackup(this._branch);
+    // Unlike a hard reset this refuses to overwrite uncommitted changes
+    await executeGitCommand(this._repo, `reset --keep ${backup.hash}`);
+
+    trackEvent({ name: "backup_restored", props: { push } });
+
+    if (push) {
+      await this.push(this._branch, start);
     }
 
-    if (!this.mode.hasBackupBranch) {
-      throw new Error("No backup branch available");
+    await this.setRebaseMode("IDLE");
+  }
+
+  // Deletes all but the given number of the newest backups
+  async pruneBackups(keepCount: number) {
+    const backups = (await this.getBackups()).slice(keepCount);
+
+    for (const backup of backups) {
+      await executeGitCommand(this._repo, `update-ref -d ${backup.ref}`);
     }
 
-    await executeGitCommand(
-      this._repo,
-      `reset --hard ${BACKUP_BRANCH_PREFIX}-${this._branch}`
+    trackEvent({ name: "backups_pruned", props: { count: backups.length } });
+
+    await this.setRebaseMode("IDLE");
+
+    return backups.length;
+  }
+
+  async showBackupDiff(backup: Backup) {
+    await this.openMultiDiffEditor(
+      `${backup.date.toLocaleString()} ↔ HEAD`,
+      backup.hash,
+      "HEAD"
     );
   }
   dispose() {
     this._stateChangeListenerDisposer.dispose();
+    this._sessionListenerDisposer.dispose();
+    this._messageEditorListenersDisposer.dispose();
+    this._configurationListenerDisposer.dispose();
   }
 }
@@ -1,7 +1,10 @@
 import {
   FileChangeType as ChangeType,
   FileChangeType,
+  getModificationRows,
+  isAdditionOnlyChange,
   isLineOverlappingWithChange,
+  getFormattingKind,
   isTextFileChange,
   mapChunkToFileChange,
 } from "./utils.js";
@@ -30,6 +33,37 @@ export const ResponseSchema = z.object({
   ),
 });
 
+const PlanChangeSchema = z.object({
+  index: z.number().describe("The original index of the change"),
+  path: z.string().describe("The file path of the change"),
+});
+
+const ChangeSplitSchema = PlanChangeSchema.extend({
+  splitPoints: z.array(z.number()),
+});
+
+// A split of a change, which is made again when applying a plan as split changes get new indexes
+export type ChangeSplit = z.infer<typeof ChangeSplitSchema>;
+
+export const RebasePlanSchema = z.object({
+  version: z.literal(1),
+  commits: z
+    .array(
+      z.object({
+        message: z.string(),
+        changes: z.array(PlanChangeSchema),
+      })
+    )
+    .describe("The commits from newest to oldest"),
+  trash: z.array(PlanChangeSchema),
+  splits: z
+    .array(ChangeSplitSchema)
+    .optional()
+    .describe("The splits of changes, in the order they were made"),
+});
+
+export type RebasePlan = z.infer<typeof RebasePlanSchema>;
+
 export type BaseFileChange = {
   path: string;
   index: number;
@@ -79,9 +113,21 @@ export type FileChange =
   | AddFileChange
   | DeleteFileChange;
 
+export type CommitAuthor = {
+  name: string;
+  email: string;
+  // ISO date, as the state of the rebaser is stored as JSON
+  date: string;
+};
+
 export type Commit = {
   hash: string;
   message: string;
+  author?: CommitAuthor;
+  // The original commit to take the author from, instead of the one contributing the most changes
+  authorHash?: string;
+  // Merge commits are linearized, so they can not be picked as they are
+  isMerge?: boolean;
 };
 
 export type RebaseCommit = {
@@ -89,6 +135,7 @@ export type RebaseCommit = {
   message: string;
   files: RebaseCommitFile[];
   hasChangeSetBeforeDependent: boolean;
+  author?: CommitAuthor;
 };
 
 export type RebaseCommitFile = {
@@ -98,15 +145,65 @@ export type RebaseCommitFile = {
   hasChanges: boolean;
 };
 
+export type FormattingKind = "whitespace" | "reorder";
+
+const FORMATTING_COMMIT_MESSAGE = "style: formatting";
+
 export type RebaseCommitFileChange = FileChange & {
   isSetBeforeDependent: boolean;
+  formattingKind?: FormattingKind;
+};
+
+// Only formatting changes get a kind, other changes are kept as they are
+function toRebaseCommitFileChange(
+  change: FileChange,
+  isSetBeforeDependent: boolean
+): RebaseCommitFileChange {
+  const formattingKind = getFormattingKind(change);
+
+  return formattingKind
+    ? { ...change, isSetBeforeDependent, formattingKind }
+    : { ...change, isSetBeforeDependent };
+}
+
+// How to handle changes being moved before changes they depend on. Warning only
+// marks them, blocking refuses the move and cascading moves the dependencies along
+export type DependencyStrategy = "warn" | "block" | "cascade";
+
+type DependencyViolation = {
+  change: FileChange;
+  dependency: FileChange;
+};
+
+function getDependencyViolationKey({
+  change,
+  dependency,
+}: DependencyViolation) {
+  return `${change.index}:${dependency.index}`;
+}
+
+// The editable state of the rebaser, which is what is recorded in the history
+// and what needs to be restored to continue a rebase
+export type RebaserState = {
+  commits: Commit[];
+  changes: FileChange[];
+  // Optional, as sessions stored before splits were recorded do not have them
+  splits?: ChangeSplit[];
 };
+
 export class Rebaser {
   private _isRebasing = false;
   private _commits: Commit[] = [];
+  // The commits the rebaser was created from, from newest to oldest
+  private _originalCommits: Commit[] = [];
   private _changes: FileChange[];
+  private _splits: ChangeSplit[] = [];
   private _rebaseCommits: RebaseCommit[] = [];
   private _changesCount = 0;
+  // Snapshots of the commits and changes before each edit, to be able to undo and redo
+  private _undoStack: RebaserState[] = [];
+  private _redoStack: RebaserState[] = [];
+  private _batchDepth = 0;
   get rebaseCommits() {
     return this._rebaseCommits;
   }
@@ -124,6 +221,7 @@ export class Rebaser {
     }[]
   ) {
     this._commits = commits.map(({ commit }) => commit).reverse();
+    this._originalCommits = structuredClone(this._commits);
     this._changes = this.normalizeChanges(
       this.getFileChangesOfCommits(commits)
     );
@@ -387,10 +485,7 @@ export class Rebaser {
         trash.push(commitFile);
       }
 
-      commitFile.changes.push({
-        ...change,
-        isSetBeforeDependent: false,
-      });
+      commitFile.changes.push(toRebaseCommitFileChange(change, false));
     }
 
     return trash;
@@ -434,11 +529,25 @@ export class Rebaser {
           break;
         }
 
+        // Changes in the trash are never applied, so they do not affect the starting position
+        if (previousChange.hash === "trash") {
+          continue;
+        }
+
+        // Additions inserted at the same line, like the pieces of a split change, are
+        // ordered by their index
+        const isAdditionBeforeChange =
+          change.modificationRange[0] === previousChange.modificationRange[0] &&
+          previousChange.index < change.index &&
+          isAdditionOnlyChange(previousChange) &&
+          isAdditionOnlyChange(change);
+
         // We only care about changes made on lines before the current change,
         // as those are the only lines that affects the starting position. Also
         // we do not adjust the starting position if the previous change is a dependent
         if (
-          change.modificationRange[0] > previousChange.modificationRange[0] &&
+          (change.modificationRange[0] > previousChange.modificationRange[0] ||
+            isAdditionBeforeChange) &&
           !change.dependencies.includes(previousChange.index)
         ) {
           // We adjust the range by now applying the actual changes before this change
@@ -505,10 +614,9 @@ export class Rebaser {
         file.hasChangeSetBeforeDependent =
           file.hasChangeSetBeforeDependent || isSetBeforeDependent;
 
-        file.changes.push({
-          ...change,
-          isSetBeforeDependent,
-        });
+        file.changes.push(
+          toRebaseCommitFileChange(change, isSetBeforeDependent)
+        );
       } else {
         rebaseCommit.hasChangeSetBeforeDependent =
           rebaseCommit.hasChangeSetBeforeDependent
@@ -516,12 +624,7 @@ export class Rebaser {
             : isSetBeforeDependent;
         rebaseCommit.files.push({
           fileName: change.path,
-          changes: [
-            {
-              ...change,
-              isSetBeforeDependent,
-            },
-          ],
+          changes: [toRebaseCommitFileChange(change, isSetBeforeDependent)],
           hasChangeSetBeforeDependent: isSetBeforeDependent,
           hasChanges: false,
         });
@@ -531,6 +634,12 @@ export class Rebaser {
     for (const hash in rebaseCommitsByHash) {
       const commit = rebaseCommitsByHash[hash];
 
+      const author = this.getCommitAuthor(hash, commit.files);
+
+      if (author) {
+        commit.author = author;
+      }
+
       for (const file of commit.files) {
         // If no original reference it has changes
         if (!this._originalChangeReferences[hash]?.[file.fileName]) {
@@ -554,21 +663,146 @@ export class Rebaser {
 
     return this._commits.map((commit) => rebaseCommitsByHash[commit.hash]);
   }
+  // The author is either chosen explicitly or taken from the original commit contributing the most changes
+  private getCommitAuthor(hash: string, files: RebaseCommitFile[]) {
+    const authorHash = this._commits.find(
+      (commit) => commit.hash === hash
+    )?.authorHash;
+
+    if (authorHash) {
+      return this._originalCommits.find((commit) => commit.hash === authorHash)
+        ?.author;
+    }
+
+    const changeCounts = new Map<string, number>();
+
+    for (const file of files) {
+      for (const change of file.changes) {
+        changeCounts.set(
+          change.originalHash,
+          (changeCounts.get(change.originalHash) ?? 0) + 1
+        );
+      }
+    }
+
+    // Changes are sorted from oldest to newest, so with equal counts the oldest commit wins
+    const [originalHash] =
+      Array.from(changeCounts).sort((a, b) => b[1] - a[1])[0] ?? [];
+
+    return this._originalCommits.find((commit) => commit.hash === originalHash)
+      ?.author;
+  }
+  getState(): RebaserState {
+    return {
+      commits: structuredClone(this._commits),
+      changes: structuredClone(this._changes),
+      splits: structuredClone(this._splits),
+    };
+  }
+  setState(state: RebaserState) {
+    const hashes = state.commits.map((commit) => commit.hash);
+
+    if (
+      state.changes.some(
+        (change) => change.hash !== "trash" && !hashes.includes(change.hash)
+      )
+    ) {
+      throw new Error("Invalid state, changes reference unknown commits");
+    }
+
+    this._commits = structuredClone(state.commits);
+    this._changes = structuredClone(state.changes);
+    this._splits = structuredClone(state.splits ?? []);
+    this._rebaseCommits = this.getRebaseCommits();
+  }
+  private pushHistory(state = this.getState()) {
+    // A batch is recorded as a single entry
+    if (this._batchDepth) {
+      return;
+    }
+
+    this._undoStack.push(state);
+    this._redoStack = [];
+  }
+  // Groups the edits made in the callback into a single undo step. If the callback
+  // throws, all its edits are reverted
+  batch<T>(callback: () => T): T {
+    const previousState = this.getState();
+
+    this._batchDepth++;
+
+    try {
+      const result = callback();
+
+      this._batchDepth--;
+      this.pushHistory(previousState);
+
+      return result;
+    } catch (error) {
+      this._batchDepth--;
+      this.setState(previousState);
+
+      throw error;
+    }
+  }
+  canUndo() {
+    return this._undoStack.length > 0;
+  }
+  canRedo() {
+    return this._redoStack.length > 0;
+  }
+  undo() {
+    const entry = this._undoStack.pop();
+
+    if (!entry) {
+      return false;
+    }
+
+    this._redoStack.push(this.getState());
+    this.setState(entry);
+    this._changesCount++;
+
+    return true;
+  }
+  redo() {
+    const entry = this._redoStack.pop();
+
+    if (!entry) {
+      return false;
+    }
+
+    this._undoStack.push(this.getState());
+    this.setState(entry);
+    this._changesCount++;
+
+    return true;
+  }
   private generateHash() {
     return "new-" + Math.random().toString(36).substring(2, 15);
   }
+  getOriginalCommits() {
+    return this._originalCommits;
+  }
   getChangesCount() {
     return this._changesCount;
   }
+  // The count is not part of the state, as undoing a change is counted as a change as well
+  setChangesCount(changesCount: number) {
+    this._changesCount = changesCount;
+  }
   addCommit(message: string) {
     const hash = this.generateHash();
 
+    this.pushHistory();
+
     this._commits.unshift({
       hash,
       message,
     });
 
     this._rebaseCommits = this.getRebaseCommits();
+
+    return hash;
   }
   removeCommit(hash: string) {
     const commit = this._commits.find((commit) => commit.hash === hash);
@@ -581,6 +815,8 @@ export class Rebaser {
       throw new Error("Commit has files");
     }
 
+    this.pushHistory();
+
     const index = this._commits.indexOf(commit);
     this._commits.splice(index, 1);
     this._rebaseCommits = this.getRebaseCommits();
@@ -593,11 +829,32 @@ export class Rebaser {
       throw new Error("Could not find commit");
     }
 
+    this.pushHistory();
     commit.message = newMessage;
 
     this._rebaseCommits = this.getRebaseCommits();
     this._changesCount++;
   }
+  setCommitAuthor(hash: string, authorHash?: string) {
+    const commit = this._commits.find((commit) => commit.hash === hash);
+
+    if (!commit) {
+      throw new Error("Could not find commit");
+    }
+
+    if (
+      authorHash &&
+      !this._originalCommits.some((commit) => commit.hash === authorHash)
+    ) {
+      throw new Error("Could not find original commit of author");
+    }
+
+    this.pushHistory();
+    commit.authorHash = authorHash;
+
+    this._rebaseCommits = this.getRebaseCommits();
+    this._changesCount++;
+  }
   getChangesForFile(fileName: string) {
     const fileChanges = this._changes.filter(
       (change) => change.path === fileName
@@ -657,51 +914,448 @@ export class Rebaser {
   }
   // Moves a commit in the array after a target hash. If after trash, it is put
   // on the first index
-  moveCommit(hash: string, afterRef?: string | "trash") {
+  moveCommit(
+    hash: string,
+    afterRef?: string | "trash",
+    dependencyStrategy: DependencyStrategy = "warn"
+  ) {
     const commit = this._commits.find((commit) => commit.hash === hash);
 
     if (!commit) {
       throw new Error("Could not find commit");
     }
 
+    const previousState = this.getState();
+    const previousViolations = this.getDependencyViolations().map(
+      getDependencyViolationKey
+    );
+    const movedIndexes = new Set(
+      this._changes
+        .filter((change) => change.hash === hash)
+        .map((change) => change.index)
+    );
     const currentIndex = this._commits.indexOf(commit);
 
     this._commits.splice(currentIndex, 1);
 
+    // Trashing a commit moves its changes to the trash
     if (afterRef === "trash") {
       this._changes.forEach((change) => {
         if (change.hash === hash) {
           change.hash = "trash";
         }
       });
-      this.sortChanges(this._changes);
+    } else {
+      const targetIndex = this._commits.findIndex(
+        (commit) => commit.hash === afterRef
+      );
 
-      return;
+      if (targetIndex === -1) {
+        this.setState(previousState);
+        throw new Error("Could not find target");
+      }
+
+      this._commits.splice(targetIndex, 0, commit);
+    }
+
+    this.sortChanges(this._changes);
+
+    let cascadedChanges: FileChange[];
+
+    try {
+      cascadedChanges = this.handleDependencyViolations({
+        previousViolations,
+        movedIndexes,
+        targetHash: afterRef === "trash" ? "trash" : hash,
+        dependencyStrategy,
+      });
+    } catch (error) {
+      this.setState(previousState);
+      throw error;
+    }
+
+    this.pushHistory(previousState);
+
+    this._rebaseCommits = this.getRebaseCommits();
+    this._changesCount++;
+
+    return cascadedChanges;
+  }
+  // Spreads the changes of a commit into new commits by the group name of their file. The
+  // first group stays in the commit and every other group gets a new commit above it
+  splitCommit(
+    hash: string,
+    getGroupName: (fileName: string) => string,
+    dependencyStrategy: DependencyStrategy = "warn"
+  ) {
+    const commit = this._commits.find((commit) => commit.hash === hash);
+
+    if (!commit) {
+      throw new Error("Could not find commit");
+    }
+
+    const changesByGroupName = new Map<string, FileChange[]>();
+
+    for (const change of this._changes) {
+      if (change.hash !== hash) {
+        continue;
+      }
+
+      const groupName = getGroupName(change.path);
+
+      changesByGroupName.set(groupName, [
+        ...(changesByGroupName.get(groupName) ?? []),
+        change,
+      ]);
+    }
+
+    if (changesByGroupName.size < 2) {
+      throw new Error("All changes of the commit are in the same group");
     }
 
-    const targetIndex = this._commits.findIndex(
-      (commit) => commit.hash === afterRef
+    const [, ...otherGroups] = Array.from(changesByGroupName);
+    const [subject, ...body] = commit.message.split("\n");
+
+    return this.batch(() => {
+      let previousHash = hash;
+
+      return otherGroups.flatMap(([groupName, changes]) => {
+        // The group name goes on the subject, keeping the body of the message as it is
+        const newHash = this.addCommit(
+          [`${subject} (${groupName})`, ...body].join("\n")
+        );
+        const cascadedChanges = [
+          ...this.moveCommit(newHash, previousHash, dependencyStrategy),
+          ...this.moveChanges(changes, newHash, dependencyStrategy),
+        ];
+
+        previousHash = newHash;
+
+        return cascadedChanges;
+      });
+    });
+  }
+  // Moves all formatting changes out of the commits, to the trash or to a "style: formatting" commit.
+  // Dependency violations are handled like when moving the changes by hand
+  moveFormattingChanges(
+    target: "trash" | "commit",
+    dependencyStrategy: DependencyStrategy = "warn"
+  ) {
+    const changes = this._changes.filter(
+      (change) => change.hash !== "trash" && getFormattingKind(change)
     );
 
-    if (targetIndex === -1) {
-      throw new Error("Could not find target");
+    if (!changes.length) {
+      throw new Error("There are no formatting changes");
     }
 
-    this._commits.splice(targetIndex, 0, commit);
+    return this.batch(() =>
+      this.moveChanges(
+        changes,
+        target === "trash"
+          ? "trash"
+          : this._commits.find(
+              (commit) => commit.message === FORMATTING_COMMIT_MESSAGE
+            )?.hash ?? this.addCommit(FORMATTING_COMMIT_MESSAGE),
+        dependencyStrategy
+      )
+    );
+  }
+  // Moves all changes of a commit into the target commit and removes the commit
+  squashCommit(
+    hash: string,
+    targetHash: string,
+    message?: string,
+    dependencyStrategy: DependencyStrategy = "warn"
+  ) {
+    return this.batch(() => {
+      const cascadedChanges = this.moveChanges(
+        this._changes.filter((change) => change.hash === hash),
+        targetHash,
+        dependencyStrategy
+      );
+
+      this.removeCommit(hash);
 
+      if (message !== undefined) {
+        this.updateCommitMessage(targetHash, message);
+      }
+
+      return cascadedChanges;
+    });
+  }
+  // Change to using the index, which should be called changeIndex
+  moveChange(
+    fileName: string,
+    changeRef: FileChange,
+    targetHash: string,
+    dependencyStrategy: DependencyStrategy = "warn"
+  ) {
+    return this.moveChanges(
+      [this.getChangeFromRef(fileName, changeRef)],
+      targetHash,
+      dependencyStrategy
+    );
+  }
+  // Moves changes to the target hash and returns any other changes moved along with them
+  moveChanges(
+    changeRefs: FileChange[],
+    targetHash: string,
+    dependencyStrategy: DependencyStrategy = "warn"
+  ) {
+    const changes = changeRefs.map((changeRef) =>
+      this.getChangeFromRef(changeRef.path, changeRef)
+    );
+    const previousState = this.getState();
+    const previousViolations = this.getDependencyViolations().map(
+      getDependencyViolationKey
+    );
+
+    changes.forEach((change) => {
+      change.hash = targetHash;
+    });
     this.sortChanges(this._changes);
 
+    let cascadedChanges: FileChange[];
+
+    try {
+      cascadedChanges = this.handleDependencyViolations({
+        previousViolations,
+        movedIndexes: new Set(changes.map((change) => change.index)),
+        targetHash,
+        dependencyStrategy,
+      });
+    } catch (error) {
+      this.setState(previousState);
+      throw error;
+    }
+
+    this.pushHistory(previousState);
+
     this._rebaseCommits = this.getRebaseCommits();
     this._changesCount++;
+
+    return cascadedChanges;
   }
-  // Change to using the index, which should be called changeIndex
-  moveChange(fileName: string, changeRef: FileChange, targetHash: string) {
+  // Changes in the trash are not applied, so they can not violate any dependencies
+  private getDependencyViolations() {
+    const violations: DependencyViolation[] = [];
+
+    this._changes.forEach((change, changePosition) => {
+      if (change.hash === "trash") {
+        return;
+      }
+
+      for (const dependencyIndex of change.dependencies) {
+        const dependency = this._changes.find(
+          (otherChange) => otherChange.index === dependencyIndex
+        );
+
+        if (
+          dependency &&
+          dependency.hash !== "trash" &&
+          this._changes.indexOf(dependency) > changePosition
+        ) {
+          violations.push({ change, dependency });
+        }
+      }
+    });
+
+    return violations;
+  }
+  // Handles new violations caused by moving changes. Blocking throws an error, while
+  // cascading moves the other change of each violation to the target as well, until
+  // there are no more new violations
+  private handleDependencyViolations({
+    previousViolations,
+    movedIndexes,
+    targetHash,
+    dependencyStrategy,
+  }: {
+    previousViolations: string[];
+    movedIndexes: Set<number>;
+    targetHash: string;
+    dependencyStrategy: DependencyStrategy;
+  }) {
+    const getNewViolations = () =>
+      this.getDependencyViolations().filter(
+        (violation) =>
+          !previousViolations.includes(getDependencyViolationKey(violation)) &&
+          (movedIndexes.has(violation.change.index) ||
+            movedIndexes.has(violation.dependency.index))
+      );
+    const cascadedChanges: FileChange[] = [];
+
+    if (dependencyStrategy === "warn") {
+      return cascadedChanges;
+    }
+
+    if (dependencyStrategy === "block") {
+      if (getNewViolations().length) {
+        throw new Error(
+          "This would place changes before changes they depend on"
+        );
+      }
+
+      return cascadedChanges;
+    }
+
+    // The change of a violation that has not been moved yet
+    const getChangesToCascade = () =>
+      getNewViolations()
+        .map(({ change, dependency }) =>
+          movedIndexes.has(change.index) ? dependency : change
+        )
+        .filter((change) => !movedIndexes.has(change.index));
+
+    let changesToCascade = getChangesToCascade();
+
+    while (changesToCascade.length) {
+      for (const change of changesToCascade) {
+        if (movedIndexes.has(change.index)) {
+          continue;
+        }
+
+        movedIndexes.add(change.index);
+        change.hash = targetHash;
+        cascadedChanges.push(change);
+      }
+
+      this.sortChanges(this._changes);
+
+      changesToCascade = getChangesToCascade();
+    }
+
+    return cascadedChanges;
+  }
+  // Splits a text change into multiple changes at the given row positions. The first piece keeps
+  // the index of the original change, while the following pieces get new indexes in order
+  splitChange(fileName: string, changeRef: FileChange, splitPoints: number[]) {
     const change = this.getChangeFromRef(fileName, changeRef);
-    change.hash = targetHash;
+
+    if (!isTextFileChange(change)) {
+      throw new Error("Only text changes can be split");
+    }
+
+    const rows = getModificationRows(change);
+    const removedCount = rows.filter((row) => row.removed).length;
+    const boundaries = [
+      0,
+      ...Array.from(new Set(splitPoints))
+        .filter((point) => point > 0 && point < rows.length)
+        .sort((a, b) => a - b),
+      rows.length,
+    ];
+
+    if (boundaries.length === 2) {
+      throw new Error("Change can not be split");
+    }
+
+    this.pushHistory();
+    this._splits.push({ index: change.index, path: fileName, splitPoints });
+
+    let nextIndex =
+      Math.max(...this._changes.map((otherChange) => otherChange.index)) + 1;
+    const pieces: ModifyTextFileChange[] = [];
+
+    for (let i = 0; i < boundaries.length - 1; i++) {
+      const pieceRows = rows.slice(boundaries[i], boundaries[i + 1]);
+      const removed = pieceRows.flatMap((row) =>
+        row.removed ? [row.removed] : []
+      );
+      const added = pieceRows.flatMap((row) => (row.added ? [row.added] : []));
+      // Removed lines are consecutive from the start of the range, so any piece
+      // starts after the lines removed by the previous pieces
+      const start =
+        change.modificationRange[0] + Math.min(boundaries[i], removedCount);
+
+      pieces.push({
+        ...change,
+        index: i === 0 ? change.index : nextIndex++,
+        dependencies: [...change.dependencies],
+        modifications: [...removed, ...added],
+        modificationRange: [
+          start,
+          removed.length ? start + removed.length - 1 : start,
+        ],
+        linesChangedCount: added.length - removed.length,
+      });
+    }
+
+    // Changes depending on the original change now depends on all its pieces
+    for (const otherChange of this._changes) {
+      if (otherChange.dependencies.includes(change.index)) {
+        otherChange.dependencies.push(
+          ...pieces.slice(1).map((piece) => piece.index)
+        );
+      }
+    }
+
+    this._changes.splice(this._changes.indexOf(change), 1, ...pieces);
     this.sortChanges(this._changes);
 
     this._rebaseCommits = this.getRebaseCommits();
     this._changesCount++;
+
+    return pieces;
+  }
+  // Splits out the rows of the changes in a commit which overlaps with the selected lines of
+  // its diff view. The original side shows removed lines and the modified side added lines
+  splitChangesBySelection(
+    fileName: string,
+    hash: string,
+    selection: { from: number; to: number },
+    side: "original" | "modified"
+  ) {
+    const fileChanges = this._changes.filter(
+      (change) => change.path === fileName
+    );
+    const splits: { change: FileChange; splitPoints: number[] }[] = [];
+
+    for (const change of this.createFileChanges(fileChanges)) {
+      if (change.hash !== hash || !isTextFileChange(change)) {
+        continue;
+      }
+
+      let start = change.modificationRange[0];
+
+      // The original side has none of the other changes of the commit applied, so
+      // we calculate the starting position without them
+      if (side === "original") {
+        const changeWithoutCommit = this.createFileChanges(
+          fileChanges.filter(
+            (otherChange) =>
+              otherChange.hash !== hash || otherChange.index === change.index
+          )
+        ).find((otherChange) => otherChange.index === change.index)!;
+
+        start = (changeWithoutCommit as ModifyTextFileChange)
+          .modificationRange[0];
+      }
+
+      const rows = getModificationRows(change);
+      const linesCount = rows.filter((row) =>
+        side === "original" ? row.removed : row.added
+      ).length;
+      const fromRow = Math.max(selection.from - start, 0);
+      const toRow = Math.min(selection.to - start, linesCount - 1);
+
+      if (fromRow > toRow || (fromRow === 0 && toRow === rows.length - 1)) {
+        continue;
+      }
+
+      splits.push({ change, splitPoints: [fromRow, toRow + 1] });
+    }
+
+    if (!splits.length) {
+      throw new Error("The selection does not split any change");
+    }
+
+    return this.batch(() =>
+      splits.flatMap(({ change, splitPoints }) =>
+        this.splitChange(fileName, change, splitPoints)
+      )
+    );
   }
   getFileChangeType(fileName: string) {
     const changes = this._changes.filter((change) => change.path === fileName);
@@ -747,7 +1401,231 @@ export class Rebaser {
           : undefined,
     }));
   }
+  getPlan(): RebasePlan {
+    const toPlanChange = (change: FileChange) => ({
+      index: change.index,
+      path: change.path,
+    });
+
+    return {
+      version: 1,
+      commits: this._commits.map((commit) => ({
+        message: commit.message,
+        changes: this._changes
+          .filter((change) => change.hash === commit.hash)
+          .map(toPlanChange),
+      })),
+      trash: this._changes
+        .filter((change) => change.hash === "trash")
+        .map(toPlanChange),
+      splits: structuredClone(this._splits),
+    };
+  }
+  private applyPlanSplits(plan: RebasePlan) {
+    for (const split of plan.splits ?? []) {
+      const change = this._changes.find(
+        (change) => change.index === split.index && change.path === split.path
+      );
+
+      if (!change) {
+        throw new Error(
+          `Change ${split.index} in ${split.path} can not be split, as it does not exist`
+        );
+      }
+
+      this.splitChange(split.path, change, split.splitPoints);
+    }
+  }
+  // Describes every change of the plan that does not line up with the changes of the
+  // rebaser, which happens when the plan was made for a different history
+  getPlanMismatches(plan: RebasePlan): string[] {
+    // The changes of the plan are matched after making its splits, on a copy to keep this rebaser as it is
+    if (plan.splits?.length) {
+      const splitRebaser = new Rebaser([]);
+
+      splitRebaser.setState(this.getState());
+
+      try {
+        splitRebaser.applyPlanSplits(plan);
+      } catch (error) {
+        return [String(error).replace("Error: ", "")];
+      }
+
+      return splitRebaser.getPlanMismatches({ ...plan, splits: [] });
+    }
+
+    const plannedChanges = [
+      ...plan.commits.flatMap((commit) => commit.changes),
+      ...plan.trash,
+    ];
+    const mismatches: string[] = [];
+
+    for (const plannedChange of plannedChanges) {
+      const change = this._changes.find(
+        (change) => change.index === plannedChange.index
+      );
+
+      if (!change) {
+        mismatches.push(
+          `Change ${plannedChange.index} in ${plannedChange.path} does not exist`
+        );
+      } else if (change.path !== plannedChange.path) {
+        mismatches.push(
+          `Change ${plannedChange.index} is in ${change.path}, not ${plannedChange.path}`
+        );
+      } else if (
+        plannedChanges.filter(
+          (otherChange) => otherChange.index === plannedChange.index
+        ).length > 1
+      ) {
+        mismatches.push(
+          `Change ${plannedChange.index} in ${plannedChange.path} is planned more than once`
+        );
+      }
+    }
+
+    for (const change of this._changes) {
+      if (
+        !plannedChanges.some(
+          (plannedChange) => plannedChange.index === change.index
+        )
+      ) {
+        mismatches.push(
+          `Change ${change.index} in ${change.path} is not part of the plan`
+        );
+      }
+    }
+
+    return Array.from(new Set(mismatches));
+  }
+  applyPlan(plan: RebasePlan) {
+    if (this.getPlanMismatches(plan).length) {
+      throw new Error("The plan does not match the changes");
+    }
+
+    this.batch(() => {
+      this.applyPlanSplits(plan);
+
+      this._commits = plan.commits.map((commit) => ({
+        hash: this.generateHash(),
+        message: commit.message,
+      }));
+
+      for (const change of this._changes) {
+        const commitIndex = plan.commits.findIndex((commit) =>
+          commit.changes.some(
+            (plannedChange) => plannedChange.index === change.index
+          )
+        );
+
+        change.hash =
+          commitIndex === -1 ? "trash" : this._commits[commitIndex].hash;
+      }
+
+      this.sortChanges(this._changes);
+    });
+
+    this._rebaseCommits = this.getRebaseCommits();
+    this._changesCount++;
+  }
+  // Creates the equivalent git-rebase-todo, from oldest to newest, when original commits are
+  // only reordered, squashed, reworded or dropped. Changes of a commit split across commits
+  // can not be expressed as a todo
+  getRebaseTodo():
+    | { isExpressible: true; todo: string[] }
+    | { isExpressible: false; reasons: string[] } {
+    const destinationsByOriginalHash: Record<string, Set<string>> = {};
+
+    for (const change of this._changes) {
+      if (!destinationsByOriginalHash[change.originalHash]) {
+        destinationsByOriginalHash[change.originalHash] = new Set();
+      }
+
+      destinationsByOriginalHash[change.originalHash].add(change.hash);
+    }
+
+    const getSubject = (commit: Commit) => commit.message.split("\n")[0];
+    const getTodoLine = (action: string, commit: Commit) =>
+      `${action} ${commit.hash.substring(0, 7)} ${getSubject(commit)}`;
+    const originalCommits = this._originalCommits.slice().reverse();
+    const reasons = [
+      ...originalCommits
+        .filter((commit) => commit.isMerge)
+        .map(
+          (commit) =>
+            `"${getSubject(commit)}" is a merge commit, which can not be picked`
+        ),
+      ...originalCommits
+        .filter(
+          (commit) => (destinationsByOriginalHash[commit.hash]?.size ?? 0) > 1
+        )
+        .map(
+          (commit) =>
+            `The changes of "${getSubject(
+              commit
+            )}" are split across multiple commits`
+        ),
+    ];
+
+    if (reasons.length) {
+      return { isExpressible: false, reasons };
+    }
+
+    const getDestination = (commit: Commit) => {
+      const destinations = destinationsByOriginalHash[commit.hash];
+
+      // Commits without changes stays where they are, unless removed
+      if (!destinations) {
+        return this._commits.some(
+          (otherCommit) => otherCommit.hash === commit.hash
+        )
+          ? commit.hash
+          : "trash";
+      }
+
+      return Array.from(destinations)[0];
+    };
+    const todo: string[] = [];
+
+    for (const commit of this._commits.slice().reverse()) {
+      const [firstCommit, ...squashedCommits] = originalCommits.filter(
+        (originalCommit) => getDestination(originalCommit) === commit.hash
+      );
+
+      if (!firstCommit) {
+        continue;
+      }
+
+      todo.push(
+        getTodoLine("pick", firstCommit),
+        ...squashedCommits.map((squashedCommit) =>
+          getTodoLine("fixup", squashedCommit)
+        )
+      );
+
+      if (commit.message !== firstCommit.message) {
+        // Each line is passed as a quoted argument to support multi line messages
+        const quotedLines = commit.message
+          .split("\n")
+          .map((line) => `'${line.replace(/'/g, "'\\''")}'`)
+          .join(" ");
+
+        todo.push(
+          `exec printf '%s\\n' ${quotedLines} | git commit --amend --no-verify -F -`
+        );
+      }
+    }
+
+    for (const commit of originalCommits) {
+      if (getDestination(commit) === "trash") {
+        todo.push(getTodoLine("drop", commit));
+      }
+    }
+
+    return { isExpressible: true, todo };
+  }
   setSuggestedRebaseCommits(suggestions: z.infer<typeof ResponseSchema>) {
+    this.pushHistory();
     this._commits = suggestions.commits.map((message) => ({
       hash: this.generateHash(),
       message,
@@ -26,10 +26,12 @@ export type AnalyticsEvent =
       props:
         | {
             result: "success";
+            provider: "openai" | "heuristics";
             duration: number;
           }
         | {
             result: "failure";
+            provider: "openai" | "heuristics";
             error: string;
           };
     }
@@ -39,6 +41,12 @@ export type AnalyticsEvent =
         hasInvalidChange: boolean;
       };
     }
+  | {
+      name: "moved_formatting_changes";
+      props: {
+        target: "trash" | "commit";
+      };
+    }
   | {
       name: "moved_commit";
       props: {
@@ -76,11 +84,66 @@ export type AnalyticsEvent =
             error: string;
           };
     }
+  | {
+      name: "updated_from_base";
+      props: {
+        result: "started" | "completed" | "aborted";
+      };
+    }
+  | {
+      name: "backup_restored";
+      props: {
+        push: boolean;
+      };
+    }
+  | {
+      name: "backups_pruned";
+      props: {
+        count: number;
+      };
+    }
+  | {
+      name: "rebase_applied";
+      props: {
+        push: boolean;
+        isNewBranch: boolean;
+      };
+    }
   | {
       name: "commit_added";
     }
   | {
       name: "commit_removed";
+    }
+  | {
+      name: "split_change";
+    }
+  | {
+      name: "undo";
+    }
+  | {
+      name: "redo";
+    }
+  | {
+      name: "plan_exported";
+    }
+  | {
+      name: "plan_imported";
+    }
+  | {
+      name: "rebase_todo_shown";
+    }
+  | {
+      name: "commit_squashed";
+    }
+  | {
+      name: "commit_author_changed";
+    }
+  | {
+      name: "commit_split";
+      props: {
+        splitBy: "file" | "directory" | "group";
+      };
     };
 
 export function trackEvent(event: AnalyticsEvent) {
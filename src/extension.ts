@@ -1,7 +1,6 @@
 import * as vscode from "vscode";
 /*
   - When verifing edit, do a quick check first
-  - When reverting, push to remote
   - Handle "sync" after rebase, or document it. Cause sync does not work after rebase,
   you have to force push. Maybe we can rather open the conflicted diffs and handle it
   all in the extension
@@ -10,11 +9,6 @@ import * as vscode from "vscode";
   - Create multiple additions, deletions and a mix in the same file
   - Verify overlapping hunks
   
-  - Option to choose how dependencies should work
-      - Show warning
-      - Block and show message
-      - Move dependencies along
-  
   - Create crash report feature
   - Write final file operations snapshot tests from diffs and making changes, remember to write for trash as well
 */
@@ -29,9 +23,22 @@ import {
   getModificationTypeFromChange,
   isTextFileChange,
   getBranchCommits,
+  getModificationRows,
+  detectTargetBranch,
+  getRemoteBranches,
+  getBaseRemote,
+  getPushRemote,
+  getCommitSubject,
+  getRebaseProgress,
 } from "./utils.js";
-import { InMemoryContentProvider, NicePR } from "./NicePR.js";
+import {
+  Backup,
+  fromDiffUri,
+  InMemoryContentProvider,
+  NicePR,
+} from "./NicePR.js";
 import { API, Repository } from "./git.js";
+import { basename } from "path";
 import { init as initAnalytics, trackEvent } from "./analytics.js";
 
 class CommitItem extends vscode.TreeItem {
@@ -43,7 +50,7 @@ class CommitItem extends vscode.TreeItem {
     };
   }
   constructor(public readonly message: string, public readonly hash: string) {
-    super(message);
+    super(getCommitSubject(message));
 
     this.description = `${hash.substring(0, 7)}`;
 
@@ -98,6 +105,12 @@ This change depends on changes from later commits`
         : RebaseChangeItem.getLabel(change)
     );
     this.id = "RebaseChangeItem-" + ref + "-" + fileName + "-" + change.index;
+    this.description =
+      change.formattingKind === "whitespace"
+        ? "Whitespace only"
+        : change.formattingKind === "reorder"
+        ? "Reordered lines"
+        : undefined;
     this.iconPath = this.getIcon();
     this.contextValue = "droppableHunk";
     this.command = this.getCommand();
@@ -119,6 +132,16 @@ This change depends on changes from later commits`
       );
     }
 
+    // Formatting changes are mostly noise, so they are toned down
+    if (this.change.formattingKind) {
+      return new vscode.ThemeIcon(
+        this.change.formattingKind === "whitespace"
+          ? "whitespace"
+          : "list-ordered",
+        new vscode.ThemeColor("disabledForeground")
+      );
+    }
+
     if (this.change.type === FileChangeType.ADD) {
       return new vscode.ThemeIcon(
         "plus",
@@ -225,6 +248,46 @@ class TrashItem extends vscode.TreeItem {
   }
 }
 
+class BackupsItem extends vscode.TreeItem {
+  toJSON() {
+    return {
+      type: "BackupsItem" as const,
+    };
+  }
+  constructor(public readonly backups: Backup[]) {
+    super("Backups", vscode.TreeItemCollapsibleState.Collapsed);
+    this.id = "BackupsItem";
+    this.description = String(backups.length);
+    this.iconPath = new vscode.ThemeIcon("history");
+    this.contextValue = "backups";
+  }
+}
+
+class BackupItem extends vscode.TreeItem {
+  toJSON() {
+    return {
+      type: "BackupItem" as const,
+      backup: this.backup,
+    };
+  }
+  constructor(public readonly backup: Backup) {
+    super(
+      backup.date.toLocaleString(),
+      vscode.TreeItemCollapsibleState.Collapsed
+    );
+    this.id = backup.ref;
+    this.description = backup.subject;
+    this.tooltip = `${backup.ref}\n${backup.hash}`;
+    this.iconPath = new vscode.ThemeIcon("archive");
+    this.contextValue = "backup";
+    this.command = {
+      command: "nicePr.showBackupDiff",
+      title: "Compare with HEAD",
+      arguments: [this],
+    };
+  }
+}
+
 class RebaseCommitItem extends vscode.TreeItem {
   toJSON() {
     return {
@@ -232,19 +295,26 @@ class RebaseCommitItem extends vscode.TreeItem {
       commit: this.commit,
     };
   }
-  constructor(public readonly commit: RebaseCommit) {
+  constructor(
+    public readonly commit: RebaseCommit,
+    public readonly messageErrors: string[] = []
+  ) {
     super(
       commit.hasChangeSetBeforeDependent
-        ? `${commit.message}
+        ? `${getCommitSubject(commit.message)}
 
 This commit has a change with dependencies to later commits
 `
-        : commit.message,
+        : getCommitSubject(commit.message),
       vscode.TreeItemCollapsibleState.Expanded
     );
 
     // Set contextValue based on whether commit has changes
     this.id = "RebaseCommitItem-" + commit.hash;
+    this.description = commit.author?.name;
+    this.tooltip = messageErrors.length
+      ? `${commit.message}\n\n${messageErrors.join("\n")}`
+      : commit.message;
     this.contextValue =
       this.commit.files.length === 0 ? "emptyCommit" : "droppableCommit";
     this.iconPath = this.getIcon();
@@ -262,6 +332,13 @@ This commit has a change with dependencies to later commits
       );
     }
 
+    if (this.messageErrors.length) {
+      return new vscode.ThemeIcon(
+        "warning",
+        new vscode.ThemeColor("charts.yellow")
+      );
+    }
+
     return new vscode.ThemeIcon(
       this.commit.files.length === 0 ? "kebab-vertical" : "git-commit",
       // We can check if it is a new commit by prefix of new- on commit hash
@@ -277,13 +354,25 @@ class RebasedCommitItem extends vscode.TreeItem {
       commit: this.commit,
     };
   }
-  constructor(public readonly commit: RebaseCommit) {
-    super(commit.message, vscode.TreeItemCollapsibleState.None);
-    this.id = "RebasedCommitItem-" + commit.hash;
-    this.iconPath = new vscode.ThemeIcon(
-      "git-commit",
-      new vscode.ThemeColor("charts.blue")
+  constructor(
+    public readonly commit: RebaseCommit,
+    hasFailedVerification = false
+  ) {
+    super(
+      getCommitSubject(commit.message),
+      vscode.TreeItemCollapsibleState.None
     );
+    this.id = "RebasedCommitItem-" + commit.hash;
+    this.tooltip = commit.message;
+    this.description = hasFailedVerification
+      ? "Verification failed"
+      : undefined;
+    this.iconPath = hasFailedVerification
+      ? new vscode.ThemeIcon("error", new vscode.ThemeColor("charts.red"))
+      : new vscode.ThemeIcon(
+          "git-commit",
+          new vscode.ThemeColor("charts.blue")
+        );
     this.command = {
       command: "nicePr.showRebasedDiff",
       title: "Show rebased diff",
@@ -293,14 +382,20 @@ class RebasedCommitItem extends vscode.TreeItem {
   }
 }
 
+const TARGET_BRANCH_STORAGE_KEY_PREFIX = "nicePr.targetBranch";
+
 type RebaseTreeItem =
   | CommitItem
   | RebasedCommitItem
   | TrashItem
+  | BackupsItem
+  | BackupItem
   | RebaseCommitItem
   | RebaseFileItem
   | RebaseChangeItem;
 
+type RebaseTreeItemData = ReturnType<RebaseTreeItem["toJSON"]>;
+
 class RebaseTreeDataProvider
   implements vscode.TreeDataProvider<RebaseTreeItem | vscode.TreeItem>
 {
@@ -309,27 +404,53 @@ class RebaseTreeDataProvider
   >();
   readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
   private view: vscode.TreeView<RebaseTreeItem | vscode.TreeItem>;
+  private _isFormattingFilterActive = false;
 
   constructor(private initializer: Initializer) {
     this.view = vscode.window.createTreeView("nicePrRebaseView", {
       treeDataProvider: this,
       showCollapseAll: false,
       dragAndDropController: this,
+      canSelectMany: true,
     });
     this.initializer.onDidChange(() => this.refresh());
   }
 
+  get selection() {
+    return this.view.selection;
+  }
+
+  // Only shows the formatting changes, to review them before moving them out
+  setFormattingFilter(isActive: boolean) {
+    this._isFormattingFilterActive = isActive;
+    vscode.commands.executeCommand(
+      "setContext",
+      "nicePr.isFormattingFilterActive",
+      isActive
+    );
+    this.refresh();
+  }
+  private filterFiles(files: RebaseCommitFile[]) {
+    if (!this._isFormattingFilterActive) {
+      return files;
+    }
+
+    return files
+      .map((file) => ({
+        ...file,
+        changes: file.changes.filter((change) => change.formattingKind),
+      }))
+      .filter((file) => file.changes.length);
+  }
+
   dropMimeTypes = ["application/vnd.code.tree.niceprdrop"] as const;
   dragMimeTypes = ["application/vnd.code.tree.niceprdrop"] as const;
   handleDrag(sources: RebaseTreeItem[], dataTransfer: vscode.DataTransfer) {
-    sources.forEach((source) => {
-      if ("toJSON" in source) {
-        dataTransfer.set(
-          this.dragMimeTypes[0],
-          new vscode.DataTransferItem(source.toJSON())
-        );
-      }
-    });
+    // All selected items are passed as one item, as setting the mime type again replaces it
+    dataTransfer.set(
+      this.dragMimeTypes[0],
+      new vscode.DataTransferItem(sources.map((source) => source.toJSON()))
+    );
   }
   handleDrop(
     target: RebaseTreeItem | undefined,
@@ -339,91 +460,125 @@ class RebaseTreeDataProvider
       return;
     }
 
-    const nicePR = this.initializer.state.nicePR;
-    const rebaser = nicePR.getRebaser();
-    const sourceData: ReturnType<RebaseTreeItem["toJSON"]> = dataTransfer.get(
+    const sourcesData: RebaseTreeItemData[] | undefined = dataTransfer.get(
       this.dragMimeTypes[0]
     )?.value;
 
-    if (!sourceData) {
+    if (!sourcesData?.length) {
       return;
     }
 
-    // You can not drag and drop rebased commits or original commits
+    // You can not drop on rebased commits, original commits or backups
     if (
-      sourceData.type === "RebasedCommitItem" ||
       target instanceof RebasedCommitItem ||
-      sourceData.type === "CommitItem" ||
-      target instanceof CommitItem
+      target instanceof CommitItem ||
+      target instanceof BackupsItem ||
+      target instanceof BackupItem
     ) {
       return;
     }
 
-    if (sourceData.type === "TrashItem") {
+    const targetRef =
+      target instanceof TrashItem
+        ? "trash"
+        : target instanceof RebaseCommitItem
+        ? target.commit.hash
+        : target.ref;
+
+    this.moveItems(sourcesData, targetRef);
+  }
+  // Moves dragged or picked items to a commit, the trash or a new commit as a single undo step
+  moveItems(
+    sourcesData: RebaseTreeItemData[],
+    targetRef: string | "trash" | { newCommitMessage: string }
+  ) {
+    if (this.initializer.state.state !== "INITIALIZED") {
       return;
     }
 
-    if (sourceData.type === "RebaseCommitItem") {
-      const targetRef =
-        target instanceof TrashItem
-          ? "trash"
-          : target instanceof RebaseCommitItem
-          ? target.commit.hash
-          : target.ref;
-      rebaser.moveCommit(sourceData.commit.hash, targetRef);
-      const hasInvalidChange = Boolean(
-        rebaser.rebaseCommits.find(
-          (commit) => commit.hasChangeSetBeforeDependent
-        )
-      );
-
-      trackEvent({ name: "moved_commit", props: { hasInvalidChange } });
+    const nicePR = this.initializer.state.nicePR;
+    const rebaser = nicePR.getRebaser();
 
-      this._onDidChangeTreeData.fire(undefined);
-      const fileNames = sourceData.commit.files.map((file) => file.fileName);
+    // You can not move rebased commits, original commits or the trash. Moving a commit
+    // onto itself is a noop
+    const movableData = sourcesData.filter(
+      (
+        sourceData
+      ): sourceData is Extract<
+        RebaseTreeItemData,
+        { type: "RebaseCommitItem" | "RebaseFileItem" | "RebaseChangeItem" }
+      > =>
+        (sourceData.type === "RebaseCommitItem" &&
+          sourceData.commit.hash !== targetRef) ||
+        sourceData.type === "RebaseFileItem" ||
+        sourceData.type === "RebaseChangeItem"
+    );
 
-      fileNames.forEach((fileName) => {
-        const hashesForFile = rebaser.getHashesForFile(fileName);
-        hashesForFile.forEach((hash) => {
-          nicePR.updateDiffView({ fileName, hash });
-        });
-      });
+    if (!movableData.length) {
       return;
     }
 
-    const changes =
-      sourceData.type === "RebaseFileItem"
-        ? sourceData.file.changes
-        : [sourceData.change];
-
-    changes.forEach((change) => {
-      if (target instanceof TrashItem) {
-        rebaser.moveChange(sourceData.fileName, change, "trash");
-        return;
+    // Commits keep their current order, regardless of the order they were selected in
+    const movedHashes = rebaser.rebaseCommits
+      .map((commit) => commit.hash)
+      .filter((hash) =>
+        movableData.some(
+          (sourceData) =>
+            sourceData.type === "RebaseCommitItem" &&
+            sourceData.commit.hash === hash
+        )
+      );
+    // Changes within a commit that is also moved follows the commit
+    const changes = movableData.flatMap((sourceData) => {
+      if (
+        sourceData.type === "RebaseCommitItem" ||
+        movedHashes.includes(sourceData.ref)
+      ) {
+        return [];
       }
 
-      const targetRef =
-        target instanceof RebaseCommitItem ? target.commit.hash : target.ref;
-
-      rebaser.moveChange(sourceData.fileName, change, targetRef);
+      return sourceData.type === "RebaseFileItem"
+        ? sourceData.file.changes
+        : [sourceData.change];
     });
 
+    try {
+      nicePR.moveItems(movedHashes, changes, targetRef);
+    } catch (error) {
+      vscode.window.showWarningMessage(String(error).replace("Error: ", ""));
+      this._onDidChangeTreeData.fire(undefined);
+      return;
+    }
+
     const hasInvalidChange = Boolean(
       rebaser.rebaseCommits.find((commit) => commit.hasChangeSetBeforeDependent)
     );
 
-    trackEvent({
-      name:
-        sourceData.type === "RebaseFileItem" ? "moved_file" : "moved_change",
-      props: { hasInvalidChange },
+    movableData.forEach((sourceData) => {
+      trackEvent({
+        name:
+          sourceData.type === "RebaseCommitItem"
+            ? "moved_commit"
+            : sourceData.type === "RebaseFileItem"
+            ? "moved_file"
+            : "moved_change",
+        props: { hasInvalidChange },
+      });
     });
 
     this._onDidChangeTreeData.fire(undefined);
+  }
 
-    nicePR.updateDiffView({
-      fileName: sourceData.fileName,
-      hash: sourceData.ref,
-    });
+  private getCommitMessageErrors(message: string) {
+    if (this.initializer.state.state !== "INITIALIZED") {
+      return [];
+    }
+
+    try {
+      return this.initializer.state.nicePR.getCommitMessageErrors(message);
+    } catch (error) {
+      return [String(error).replace("Error: ", "")];
+    }
   }
 
   getTreeItem(
@@ -446,19 +601,84 @@ class RebaseTreeDataProvider
       return [];
     }
 
+    if (mode.mode === "UPDATING_FROM_BASE") {
+      const { step, total, subject } = mode.progress;
+      const stepItem = new vscode.TreeItem(
+        `Applying ${step} of ${total}`,
+        vscode.TreeItemCollapsibleState.None
+      );
+      stepItem.description = subject;
+      stepItem.iconPath = new vscode.ThemeIcon("git-commit");
+      const rootUri = this.initializer.state.repo.rootUri;
+
+      return [
+        stepItem,
+        ...mode.conflicts.map((fileName) => {
+          const uri = vscode.Uri.joinPath(rootUri, fileName);
+          const conflictItem = new vscode.TreeItem(uri);
+          conflictItem.description = "Conflict";
+          conflictItem.iconPath = new vscode.ThemeIcon(
+            "warning",
+            new vscode.ThemeColor("list.warningForeground")
+          );
+          conflictItem.command = {
+            command: "git.openMergeEditor",
+            title: "Open in Merge Editor",
+            arguments: [uri],
+          };
+
+          return conflictItem;
+        }),
+      ];
+    }
+
     if (mode.mode === "IDLE") {
-      return this.initializer.state.nicePR.commits.map(
+      const nicePR = this.initializer.state.nicePR;
+
+      if (element instanceof BackupsItem) {
+        return element.backups.map((backup) => new BackupItem(backup));
+      }
+
+      if (element instanceof BackupItem) {
+        const commits = await this.initializer.state.repo.log({
+          range: `${nicePR.baseRemote}/${nicePR.targetBranch}..${element.backup.hash}`,
+        });
+
+        return commits.map(
+          (commit) => new CommitItem(commit.message, commit.hash)
+        );
+      }
+
+      if (element) {
+        return [];
+      }
+
+      const commits = nicePR.commits.map(
         (commit) => new CommitItem(commit.message, commit.hash)
       );
+
+      if (!mode.hasBackups) {
+        return commits;
+      }
+
+      return [...commits, new BackupsItem(await nicePR.getBackups())];
     }
 
     const rebaser = mode.rebaser;
     const rebaseCommits = rebaser.rebaseCommits;
 
     if (mode.mode === "READY_TO_PUSH") {
+      const failedVerificationHash =
+        this.initializer.state.nicePR.failedVerificationHash;
       const rebasedCommits = rebaseCommits
         .filter((commit) => Boolean(commit.files.length))
-        .map((commit) => new RebasedCommitItem(commit));
+        .map(
+          (commit) =>
+            new RebasedCommitItem(
+              commit,
+              commit.hash === failedVerificationHash
+            )
+        );
       const commits = this.initializer.state.nicePR.commits.map(
         (commit) => new CommitItem(commit.message, commit.hash)
       );
@@ -480,18 +700,31 @@ class RebaseTreeDataProvider
     if (!element) {
       return [
         new TrashItem(rebaser.getTrash()),
-        ...rebaseCommits.map((commit) => new RebaseCommitItem(commit)),
+        ...rebaseCommits.map(
+          (commit) =>
+            new RebaseCommitItem(
+              commit,
+              // Empty commits are not created, so their messages do not matter
+              commit.files.length
+                ? this.getCommitMessageErrors(commit.message)
+                : []
+            )
+        ),
       ];
     }
 
     if (element instanceof TrashItem) {
-      return element.trash.map((file) => new RebaseFileItem("trash", file));
+      return this.filterFiles(element.trash).map(
+        (file) => new RebaseFileItem("trash", file)
+      );
     }
 
     if (element instanceof RebaseCommitItem) {
       const commit = element.commit;
 
-      return commit.files.map((file) => new RebaseFileItem(commit.hash, file));
+      return this.filterFiles(commit.files).map(
+        (file) => new RebaseFileItem(commit.hash, file)
+      );
     }
 
     if (element instanceof RebaseFileItem) {
@@ -508,6 +741,8 @@ class RebaseTreeDataProvider
 
   refresh(): void {
     let title: string;
+    let description: string | undefined;
+    let message: string | undefined;
 
     if (this.initializer.state.state === "IDLE") {
       title = "No active repository";
@@ -518,15 +753,30 @@ class RebaseTreeDataProvider
     } else {
       const nicePR = this.initializer.state.nicePR;
       title = "Commits";
+      description = `onto ${nicePR.baseRemote}/${nicePR.targetBranch}`;
+
+      if (this.initializer.repositories.length > 1) {
+        description = `${basename(
+          this.initializer.state.repo.rootUri.fsPath
+        )} ${description}`;
+      }
 
       if (nicePR.mode.mode === "REBASING") {
         title = "Rebasing";
+
+        if (this._isFormattingFilterActive) {
+          message = "Only formatting changes are shown";
+        }
       } else if (nicePR.mode.mode === "READY_TO_PUSH") {
         title = "Reviewing";
+      } else if (nicePR.mode.mode === "UPDATING_FROM_BASE") {
+        title = "Updating from base";
       }
     }
 
     this.view.title = title;
+    this.view.description = description;
+    this.view.message = message;
 
     this._onDidChangeTreeData.fire(undefined);
   }
@@ -604,35 +854,106 @@ class Initializer {
 
     return new Initializer(context, contentProvider, api);
   }
+  private _outputChannel = vscode.window.createOutputChannel("Nice PR");
   constructor(
-    _context: vscode.ExtensionContext,
+    private _context: vscode.ExtensionContext,
     private _inMemoryContentProvider: InMemoryContentProvider,
     private _api: API
   ) {
     _context.subscriptions.push(
+      this._outputChannel,
+      // The remotes are resolved when initializing, so a changed base remote initializes again
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (
+          event.affectsConfiguration("nicePr.baseRemote") &&
+          this.state.state === "INITIALIZED"
+        ) {
+          this.initializeRepo(this.state.repo);
+        }
+      }),
       _api.onDidOpenRepository(async (repo) => {
-        this.initializeRepo(repo);
+        this.updateRepositoriesContext();
+
+        // An opened repository is only used if there is none or it is the one of the active editor
+        if (
+          this.state.state === "IDLE" ||
+          repo === this.getActiveEditorRepo()
+        ) {
+          this.initializeRepo(repo);
+        }
       }),
       _api.onDidCloseRepository((repo) => {
+        this.updateRepositoriesContext();
+
         if (
           (this.state.state === "INITIALIZED" ||
             this.state.state === "INITIALIZING") &&
           this.state.repo === repo
         ) {
-          this.state = { state: "IDLE" };
+          const nextRepo = _api.repositories[0];
+
+          if (nextRepo) {
+            this.initializeRepo(nextRepo);
+          } else {
+            this.state = { state: "IDLE" };
+          }
+        }
+      }),
+      vscode.window.onDidChangeActiveTextEditor(() => {
+        const repo = this.getActiveEditorRepo();
+
+        if (repo && this.canChangeRepo() && this.repo !== repo) {
+          this.initializeRepo(repo);
         }
       })
     );
 
-    const initialRepo = _api.repositories[0];
+    this.updateRepositoriesContext();
+
+    const initialRepo = this.getActiveEditorRepo() ?? _api.repositories[0];
 
     if (initialRepo) {
       this.initializeRepo(initialRepo);
     }
   }
+  get repositories() {
+    return this._api.repositories;
+  }
+  get repo() {
+    return this.state.state === "INITIALIZED" ||
+      this.state.state === "INITIALIZING"
+      ? this.state.repo
+      : undefined;
+  }
+  private getActiveEditorRepo() {
+    const uri = vscode.window.activeTextEditor?.document.uri;
+
+    return (uri && this._api.getRepository(uri)) ?? undefined;
+  }
+  private updateRepositoriesContext() {
+    vscode.commands.executeCommand(
+      "setContext",
+      "nicePr.hasMultipleRepositories",
+      this._api.repositories.length > 1
+    );
+  }
+  // Changing the repository would lose an ongoing rebase
+  canChangeRepo() {
+    return (
+      this.state.state !== "INITIALIZED" ||
+      this.state.nicePR.mode.mode === "IDLE"
+    );
+  }
+  selectRepo(repo: Repository) {
+    if (!this.canChangeRepo()) {
+      throw new Error("Can not change repository while rebasing");
+    }
+
+    this.initializeRepo(repo);
+  }
   private async initializeRepo(repo: Repository) {
     try {
-      const branch = repo.state.HEAD?.name;
+      const headName = repo.state.HEAD?.name;
 
       const abortController = new AbortController();
       const stateChangeDisposer = repo.state.onDidChange(() => {
@@ -643,7 +964,7 @@ class Initializer {
           (this.state.state === "INITIALIZING" ||
             this.state.state === "INITIALIZED") &&
           this.state.repo === repo &&
-          repo.state.HEAD?.name !== branch
+          repo.state.HEAD?.name !== headName
         ) {
           stateChangeDisposer.dispose();
           this.initializeRepo(repo);
@@ -659,12 +980,32 @@ class Initializer {
         },
       };
 
+      // HEAD is detached while updating from base, but the rebased branch is still the one we work on
+      const branch = headName ?? (await getRebaseProgress(repo))?.branch;
+
       // We'll wait for the branch to be available
       if (!branch) {
         return;
       }
 
-      const commits = await getBranchCommits(repo, branch);
+      const baseRemote = await getBaseRemote(
+        repo,
+        branch,
+        vscode.workspace
+          .getConfiguration("nicePr", repo.rootUri)
+          .get<string>("baseRemote", "")
+      );
+      const pushRemote = await getPushRemote(repo, branch);
+      const targetBranch =
+        this._context.workspaceState.get<string>(
+          this.getTargetBranchStorageKey(repo, branch)
+        ) ?? (await detectTargetBranch(repo, branch, baseRemote));
+      const commits = await getBranchCommits(
+        repo,
+        branch,
+        targetBranch,
+        baseRemote
+      );
 
       if (abortController.signal.aborted) {
         stateChangeDisposer.dispose();
@@ -675,10 +1016,14 @@ class Initializer {
 
       const nicePR = new NicePR({
         contentProvider: this._inMemoryContentProvider,
-        api: this._api,
         repo,
         branch,
         commits,
+        targetBranch,
+        baseRemote,
+        pushRemote,
+        storage: this._context.workspaceState,
+        outputChannel: this._outputChannel,
       });
 
       const nicePRChangeDisposer = nicePR.onDidChange(() => {
@@ -705,6 +1050,75 @@ class Initializer {
 
     this._onDidChange.fire();
   }
+  private getTargetBranchStorageKey(repo: Repository, branch: string) {
+    return `${TARGET_BRANCH_STORAGE_KEY_PREFIX}:${repo.rootUri.fsPath}:${branch}`;
+  }
+  // Overrides the detected target branch of the current branch, or detects it again when not passed
+  async setTargetBranch(targetBranch?: string) {
+    if (this.state.state !== "INITIALIZED" || !this.state.nicePR.branch) {
+      return;
+    }
+
+    const repo = this.state.repo;
+
+    await this._context.workspaceState.update(
+      this.getTargetBranchStorageKey(repo, this.state.nicePR.branch),
+      targetBranch
+    );
+
+    this.initializeRepo(repo);
+  }
+}
+
+async function squashCommit(
+  nicePR: NicePR,
+  commit: RebaseCommit,
+  targetCommit: RebaseCommit,
+  preferCombinedMessage: boolean
+) {
+  const messageItems: { label: string; message?: string }[] = [
+    {
+      label: "Combine messages",
+      message: `${targetCommit.message}\n\n${commit.message}`,
+    },
+    {
+      label: `Keep "${getCommitSubject(targetCommit.message)}"`,
+    },
+  ];
+  const messageItem = await vscode.window.showQuickPick(
+    preferCombinedMessage ? messageItems : messageItems.slice().reverse(),
+    { placeHolder: "Choose the message of the squashed commit" }
+  );
+
+  if (!messageItem) {
+    return;
+  }
+
+  try {
+    nicePR.squashCommit(commit.hash, targetCommit.hash, messageItem.message);
+  } catch (error) {
+    vscode.window.showWarningMessage(String(error).replace("Error: ", ""));
+  }
+}
+
+async function restoreBackup(nicePR: NicePR, backup: Backup) {
+  const choice = await vscode.window.showQuickPick(
+    [
+      { label: "Restore locally", push: false },
+      { label: "Restore and force push", push: true },
+    ],
+    {
+      placeHolder: `Restore ${
+        nicePR.branch
+      } to the backup from ${backup.date.toLocaleString()}?`,
+    }
+  );
+
+  if (!choice) {
+    return;
+  }
+
+  await nicePR.restoreBackup(backup, choice.push);
 }
 
 export async function activate(context: vscode.ExtensionContext) {
@@ -748,7 +1162,118 @@ export async function activate(context: vscode.ExtensionContext) {
       }
 
       try {
-        await initializer.state.nicePR.revertToBackupBranch();
+        const [latestBackup] = await initializer.state.nicePR.getBackups();
+
+        if (!latestBackup) {
+          throw new Error("No backup available");
+        }
+
+        await restoreBackup(initializer.state.nicePR, latestBackup);
+      } catch (error) {
+        vscode.window.showWarningMessage(String(error).replace("Error: ", ""));
+      }
+    }),
+    vscode.commands.registerCommand(
+      "nicePr.showBackupDiff",
+      async (backupItem: BackupItem) => {
+        if (initializer.state.state !== "INITIALIZED") {
+          return;
+        }
+
+        try {
+          await initializer.state.nicePR.showBackupDiff(backupItem.backup);
+        } catch (error) {
+          vscode.window.showWarningMessage(
+            String(error).replace("Error: ", "")
+          );
+        }
+      }
+    ),
+    vscode.commands.registerCommand(
+      "nicePr.restoreBackup",
+      async (backupItem: BackupItem) => {
+        if (initializer.state.state !== "INITIALIZED") {
+          return;
+        }
+
+        try {
+          await restoreBackup(initializer.state.nicePR, backupItem.backup);
+        } catch (error) {
+          vscode.window.showWarningMessage(
+            String(error).replace("Error: ", "")
+          );
+        }
+      }
+    ),
+    vscode.commands.registerCommand("nicePr.pruneBackups", async () => {
+      if (initializer.state.state !== "INITIALIZED") {
+        return;
+      }
+
+      const keepItem = await vscode.window.showQuickPick(
+        [
+          { label: "Keep the 5 newest backups", keepCount: 5 },
+          { label: "Keep the newest backup", keepCount: 1 },
+          { label: "Delete all backups", keepCount: 0 },
+        ],
+        { placeHolder: "Which backups do you want to keep?" }
+      );
+
+      if (!keepItem) {
+        return;
+      }
+
+      try {
+        const count = await initializer.state.nicePR.pruneBackups(
+          keepItem.keepCount
+        );
+
+        vscode.window.showInformationMessage(
+          `Deleted ${count} backup${count === 1 ? "" : "s"}`
+        );
+      } catch (error) {
+        vscode.window.showWarningMessage(String(error).replace("Error: ", ""));
+      }
+    }),
+    vscode.commands.registerCommand(
+      "nicePr.continueUpdateFromBase",
+      async () => {
+        if (initializer.state.state !== "INITIALIZED") {
+          return;
+        }
+
+        try {
+          await initializer.state.nicePR.continueUpdateFromBase();
+        } catch (error) {
+          vscode.window.showWarningMessage(
+            String(error).replace("Error: ", "")
+          );
+        }
+      }
+    ),
+    vscode.commands.registerCommand(
+      "nicePr.skipUpdateFromBaseCommit",
+      async () => {
+        if (initializer.state.state !== "INITIALIZED") {
+          return;
+        }
+
+        try {
+          await initializer.state.nicePR.skipUpdateFromBaseCommit();
+        } catch (error) {
+          vscode.window.showWarningMessage(
+            String(error).replace("Error: ", "")
+          );
+        }
+      }
+    ),
+    vscode.commands.registerCommand("nicePr.abortUpdateFromBase", async () => {
+      if (initializer.state.state !== "INITIALIZED") {
+        return;
+      }
+
+      try {
+        await initializer.state.nicePR.abortUpdateFromBase();
       } catch (error) {
         vscode.window.showWarningMessage(String(error).replace("Error: ", ""));
       }
@@ -806,7 +1331,56 @@ export async function activate(context: vscode.ExtensionContext) {
         return;
       }
 
-      initializer.state.nicePR.setRebaseMode("PUSHING");
+      initializer.state.nicePR.applyRebase({ push: true });
+    }),
+    vscode.commands.registerCommand("nicePr.applyLocally", () => {
+      if (initializer.state.state !== "INITIALIZED") {
+        return;
+      }
+
+      initializer.state.nicePR.applyRebase({ push: false });
+    }),
+    vscode.commands.registerCommand("nicePr.applyToNewBranch", async () => {
+      if (initializer.state.state !== "INITIALIZED") {
+        return;
+      }
+
+      const nicePR = initializer.state.nicePR;
+      const newBranch = await vscode.window.showInputBox({
+        prompt: "Enter the name of the new branch",
+        value: `${nicePR.branch}-v2`,
+        validateInput: async (value) => {
+          if (!value || /\s|\.\.|[~^:?*[\\]/.test(value)) {
+            return "Not a valid branch name";
+          }
+
+          return initializer.state.state === "INITIALIZED" &&
+            (await initializer.state.repo
+              .getBranch(value)
+              .then(() => true)
+              .catch(() => false))
+            ? "The branch already exists"
+            : undefined;
+        },
+      });
+
+      if (!newBranch) {
+        return;
+      }
+
+      const choice = await vscode.window.showQuickPick(
+        [
+          { label: "Apply and push", push: true },
+          { label: "Apply locally", push: false },
+        ],
+        { placeHolder: `Do you want to push ${newBranch}?` }
+      );
+
+      if (!choice) {
+        return;
+      }
+
+      nicePR.applyRebase({ push: choice.push, newBranch });
     }),
     vscode.commands.registerCommand(
       "nicePr.editCommitMessage",
@@ -815,17 +1389,12 @@ export async function activate(context: vscode.ExtensionContext) {
           return;
         }
 
-        const newMessage = await vscode.window.showInputBox({
-          prompt: "Edit commit message",
-          value: rebaseCommit.message,
-        });
-
-        if (newMessage !== undefined) {
-          await initializer.state.nicePR.updateCommitMessage(
-            rebaseCommit.hash,
-            newMessage
+        try {
+          await initializer.state.nicePR.editCommitMessage(rebaseCommit.hash);
+        } catch (error) {
+          vscode.window.showWarningMessage(
+            String(error).replace("Error: ", "")
           );
-          trackEvent({ name: "changed_commit_message" });
         }
       }
     ),
@@ -857,6 +1426,444 @@ export async function activate(context: vscode.ExtensionContext) {
         trackEvent({ name: "commit_added" });
       }
     }),
+    vscode.commands.registerCommand(
+      "nicePr.squashCommit",
+      (item: RebaseCommitItem) => {
+        if (initializer.state.state !== "INITIALIZED") {
+          return;
+        }
+
+        const nicePR = initializer.state.nicePR;
+        const rebaseCommits = nicePR.getRebaser().rebaseCommits;
+        // The previous commit is the one below in the tree
+        const previousCommit =
+          rebaseCommits[
+            rebaseCommits.findIndex(
+              (commit) => commit.hash === item.commit.hash
+            ) + 1
+          ];
+
+        if (!previousCommit) {
+          vscode.window.showWarningMessage(
+            "There is no previous commit to squash into"
+          );
+          return;
+        }
+
+        return squashCommit(nicePR, item.commit, previousCommit, true);
+      }
+    ),
+    vscode.commands.registerCommand(
+      "nicePr.fixupCommit",
+      async (item: RebaseCommitItem) => {
+        if (initializer.state.state !== "INITIALIZED") {
+          return;
+        }
+
+        const nicePR = initializer.state.nicePR;
+        const targetItem = await vscode.window.showQuickPick(
+          nicePR
+            .getRebaser()
+            .rebaseCommits.filter((commit) => commit.hash !== item.commit.hash)
+            .map((commit) => ({
+              label: getCommitSubject(commit.message),
+              description: commit.hash.substring(0, 7),
+              commit,
+            })),
+          { placeHolder: "Choose the commit to fixup into" }
+        );
+
+        if (!targetItem) {
+          return;
+        }
+
+        return squashCommit(nicePR, item.commit, targetItem.commit, false);
+      }
+    ),
+    vscode.commands.registerCommand(
+      "nicePr.moveTo",
+      async (item?: RebaseTreeItem, selectedItems?: RebaseTreeItem[]) => {
+        if (initializer.state.state !== "INITIALIZED") {
+          return;
+        }
+
+        const nicePR = initializer.state.nicePR;
+        // Keybindings does not pass the item, so we use the selection of the view
+        const items = (
+          selectedItems?.length
+            ? selectedItems
+            : item
+            ? [item]
+            : rebaseTreeDataProvider.selection
+        ).filter(
+          (
+            item
+          ): item is RebaseCommitItem | RebaseFileItem | RebaseChangeItem =>
+            item instanceof RebaseCommitItem ||
+            item instanceof RebaseFileItem ||
+            item instanceof RebaseChangeItem
+        );
+
+        if (!items.length) {
+          return;
+        }
+
+        const movedHashes = items.flatMap((item) =>
+          item instanceof RebaseCommitItem ? [item.commit.hash] : []
+        );
+        const targetItem = await vscode.window.showQuickPick(
+          [
+            ...nicePR
+              .getRebaser()
+              .rebaseCommits.filter(
+                (commit) => !movedHashes.includes(commit.hash)
+              )
+              .map((commit) => ({
+                label: getCommitSubject(commit.message),
+                description: commit.hash.substring(0, 7),
+                targetRef: commit.hash as string | undefined,
+              })),
+            { label: "$(trash) Trash", targetRef: "trash" },
+            { label: "$(add) New commit...", targetRef: undefined },
+          ],
+          {
+            placeHolder:
+              items.length > 1
+                ? `Move ${items.length} items to...`
+                : "Move to...",
+          }
+        );
+
+        if (!targetItem) {
+          return;
+        }
+
+        const sourcesData = items.map((item) => item.toJSON());
+
+        if (targetItem.targetRef) {
+          rebaseTreeDataProvider.moveItems(sourcesData, targetItem.targetRef);
+          return;
+        }
+
+        const message = await vscode.window.showInputBox({
+          prompt: "Enter commit message",
+          placeHolder: "feat: my new feature",
+        });
+
+        if (!message) {
+          return;
+        }
+
+        // Adding the commit is part of the move, so it is removed again when the move fails
+        rebaseTreeDataProvider.moveItems(sourcesData, {
+          newCommitMessage: message,
+        });
+      }
+    ),
+    vscode.commands.registerCommand("nicePr.showOnlyFormattingChanges", () =>
+      rebaseTreeDataProvider.setFormattingFilter(true)
+    ),
+    vscode.commands.registerCommand("nicePr.showAllChanges", () =>
+      rebaseTreeDataProvider.setFormattingFilter(false)
+    ),
+    vscode.commands.registerCommand(
+      "nicePr.moveFormattingChangesToTrash",
+      () => {
+        if (initializer.state.state !== "INITIALIZED") {
+          return;
+        }
+
+        try {
+          initializer.state.nicePR.moveFormattingChanges("trash");
+        } catch (error) {
+          vscode.window.showWarningMessage(
+            String(error).replace("Error: ", "")
+          );
+        }
+      }
+    ),
+    vscode.commands.registerCommand(
+      "nicePr.moveFormattingChangesToCommit",
+      () => {
+        if (initializer.state.state !== "INITIALIZED") {
+          return;
+        }
+
+        try {
+          initializer.state.nicePR.moveFormattingChanges("commit");
+        } catch (error) {
+          vscode.window.showWarningMessage(
+            String(error).replace("Error: ", "")
+          );
+        }
+      }
+    ),
+    vscode.commands.registerCommand(
+      "nicePr.splitCommit",
+      async (item: RebaseCommitItem) => {
+        if (initializer.state.state !== "INITIALIZED") {
+          return;
+        }
+
+        const splitByItem = await vscode.window.showQuickPick(
+          [
+            { label: "One commit per file", splitBy: "file" as const },
+            {
+              label: "One commit per top-level directory",
+              splitBy: "directory" as const,
+            },
+            {
+              label: "One commit per group",
+              description: "Configured with nicePr.commitSplitGroups",
+              splitBy: "group" as const,
+            },
+          ],
+          { placeHolder: "How do you want to split the commit?" }
+        );
+
+        if (!splitByItem) {
+          return;
+        }
+
+        try {
+          initializer.state.nicePR.splitCommit(
+            item.commit.hash,
+            splitByItem.splitBy
+          );
+        } catch (error) {
+          vscode.window.showWarningMessage(
+            String(error).replace("Error: ", "")
+          );
+        }
+      }
+    ),
+    vscode.commands.registerCommand(
+      "nicePr.setCommitAuthor",
+      async (item: RebaseCommitItem) => {
+        if (initializer.state.state !== "INITIALIZED") {
+          return;
+        }
+
+        const nicePR = initializer.state.nicePR;
+        const authorItem = await vscode.window.showQuickPick(
+          [
+            {
+              label: "Automatic",
+              description: "Author of the commit with the most changes",
+              authorHash: undefined as string | undefined,
+            },
+            ...nicePR
+              .getRebaser()
+              .getOriginalCommits()
+              .flatMap((commit) =>
+                commit.author
+                  ? [
+                      {
+                        label: `${commit.author.name} <${commit.author.email}>`,
+                        description: new Date(
+                          commit.author.date
+                        ).toLocaleString(),
+                        detail: commit.message,
+                        authorHash: commit.hash as string | undefined,
+                      },
+                    ]
+                  : []
+              ),
+          ],
+          { placeHolder: "Who should be the author of the commit?" }
+        );
+
+        if (!authorItem) {
+          return;
+        }
+
+        try {
+          nicePR.setCommitAuthor(item.commit.hash, authorItem.authorHash);
+        } catch (error) {
+          vscode.window.showWarningMessage(
+            String(error).replace("Error: ", "")
+          );
+        }
+      }
+    ),
+    vscode.commands.registerCommand("nicePr.selectRepository", async () => {
+      const repoItem = await vscode.window.showQuickPick(
+        initializer.repositories.map((repo) => ({
+          label: basename(repo.rootUri.fsPath),
+          description: vscode.workspace.asRelativePath(repo.rootUri),
+          detail: repo.state.HEAD?.name,
+          repo,
+        })),
+        { placeHolder: "Choose the repository to work on" }
+      );
+
+      if (!repoItem) {
+        return;
+      }
+
+      try {
+        initializer.selectRepo(repoItem.repo);
+      } catch (error) {
+        vscode.window.showWarningMessage(String(error).replace("Error: ", ""));
+      }
+    }),
+    vscode.commands.registerCommand("nicePr.setTargetBranch", async () => {
+      if (initializer.state.state !== "INITIALIZED") {
+        return;
+      }
+
+      const nicePR = initializer.state.nicePR;
+      const remoteBranches = await getRemoteBranches(
+        initializer.state.repo,
+        nicePR.baseRemote
+      );
+      const targetBranchItem = await vscode.window.showQuickPick(
+        [
+          {
+            label: "Detect automatically",
+            targetBranch: undefined as string | undefined,
+          },
+          ...remoteBranches
+            .filter((remoteBranch) => remoteBranch !== nicePR.branch)
+            .map((remoteBranch) => ({
+              label: `${nicePR.baseRemote}/${remoteBranch}`,
+              description:
+                remoteBranch === nicePR.targetBranch ? "Current" : undefined,
+              targetBranch: remoteBranch as string | undefined,
+            })),
+        ],
+        { placeHolder: `Choose the branch ${nicePR.branch} is based on` }
+      );
+
+      if (!targetBranchItem) {
+        return;
+      }
+
+      await initializer.setTargetBranch(targetBranchItem.targetBranch);
+    }),
+    vscode.commands.registerCommand("nicePr.exportPlan", () => {
+      if (initializer.state.state !== "INITIALIZED") {
+        return;
+      }
+
+      initializer.state.nicePR.exportPlan();
+    }),
+    vscode.commands.registerCommand("nicePr.importPlan", () => {
+      if (initializer.state.state !== "INITIALIZED") {
+        return;
+      }
+
+      initializer.state.nicePR.importPlan();
+    }),
+    vscode.commands.registerCommand("nicePr.showRebaseTodo", () => {
+      if (initializer.state.state !== "INITIALIZED") {
+        return;
+      }
+
+      initializer.state.nicePR.showRebaseTodo();
+    }),
+    vscode.commands.registerCommand("nicePr.undo", () => {
+      if (initializer.state.state !== "INITIALIZED") {
+        return;
+      }
+
+      initializer.state.nicePR.undo();
+    }),
+    vscode.commands.registerCommand("nicePr.redo", () => {
+      if (initializer.state.state !== "INITIALIZED") {
+        return;
+      }
+
+      initializer.state.nicePR.redo();
+    }),
+    vscode.commands.registerCommand(
+      "nicePr.splitChange",
+      async (item: RebaseChangeItem) => {
+        if (initializer.state.state !== "INITIALIZED") {
+          return;
+        }
+
+        if (!isTextFileChange(item.change)) {
+          vscode.window.showWarningMessage("Only text changes can be split");
+          return;
+        }
+
+        const rows = getModificationRows(item.change);
+        const picks = await vscode.window.showQuickPick(
+          rows.map((row, index) => ({
+            label: [row.removed, row.added].filter(Boolean).join("  →  "),
+            index,
+          })),
+          {
+            canPickMany: true,
+            placeHolder: "Select the lines to split out into a new change",
+          }
+        );
+
+        if (!picks?.length) {
+          return;
+        }
+
+        const selectedRows = picks.map((pick) => pick.index);
+        // We split wherever the selection starts or stops
+        const splitPoints = rows
+          .map((_, index) => index)
+          .filter(
+            (index) =>
+              index > 0 &&
+              selectedRows.includes(index) !== selectedRows.includes(index - 1)
+          );
+
+        try {
+          initializer.state.nicePR.splitChange(
+            item.fileName,
+            item.change,
+            splitPoints
+          );
+          initializer.state.nicePR.updateDiffView({
+            fileName: item.fileName,
+            hash: item.ref,
+          });
+        } catch (error) {
+          vscode.window.showWarningMessage(
+            String(error).replace("Error: ", "")
+          );
+        }
+      }
+    ),
+    vscode.commands.registerCommand("nicePr.splitSelectedLines", () => {
+      if (initializer.state.state !== "INITIALIZED") {
+        return;
+      }
+
+      const editor = vscode.window.activeTextEditor;
+
+      if (!editor || editor.document.uri.scheme !== "nice-pr-diff") {
+        return;
+      }
+
+      const { fileName, hash, side } = fromDiffUri(editor.document.uri);
+      const { start, end } = editor.selection;
+
+      try {
+        initializer.state.nicePR.splitChangesBySelection({
+          fileName,
+          hash,
+          side,
+          selection: {
+            from: start.line,
+            // A selection of full lines ends at the start of the next line
+            to:
+              end.character === 0 && end.line > start.line
+                ? end.line - 1
+                : end.line,
+          },
+        });
+        initializer.state.nicePR.updateDiffView({ fileName, hash });
+      } catch (error) {
+        vscode.window.showWarningMessage(String(error).replace("Error: ", ""));
+      }
+    }),
     // Register the command for internal use
     vscode.commands.registerCommand(
       "nicePr.showFileDiff",
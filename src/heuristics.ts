@@ -0,0 +1,237 @@
+import { z } from "zod";
+import { ResponseSchema } from "./Rebaser.js";
+import { globToRegExp } from "./utils.js";
+
+type Suggestions = z.infer<typeof ResponseSchema>;
+type SuggestionDiff = Omit<Suggestions["diffs"][number], "commitIndex">;
+
+const CHORE_GROUP = "chore";
+
+const LOCKFILE_REGEXP = globToRegExp(
+  "**/{package-lock.json,npm-shrinkwrap.json,yarn.lock,pnpm-lock.yaml,bun.lockb,Cargo.lock,Gemfile.lock,poetry.lock,Pipfile.lock,composer.lock,go.sum}"
+);
+const CONFIG_REGEXP = globToRegExp(
+  "{**/.*,**/.*/**,**/tsconfig*.json,**/*.config.{js,cjs,mjs,ts,cts,mts,json},**/Dockerfile}"
+);
+const TEST_FILE_REGEXP = /\.(test|spec)(\.[^/.]+)+$/;
+const TEST_DIRECTORIES = ["test", "tests", "__tests__", "spec"];
+
+// The name a test file and the file it tests have in common, like "Button" for
+// "src/tests/Button.test.tsx" and "src/components/Button.tsx"
+function getModuleName(filePath: string) {
+  return filePath
+    .split("/")
+    .pop()!
+    .replace(TEST_FILE_REGEXP, "")
+    .replace(/\.[^.]+$/, "");
+}
+
+function isTestFile(filePath: string) {
+  const directories = filePath.split("/").slice(0, -1);
+
+  return (
+    TEST_FILE_REGEXP.test(filePath) ||
+    directories.some((directory) => TEST_DIRECTORIES.includes(directory))
+  );
+}
+
+// Files are grouped by package or directory, using the first two directories of their path,
+// like "packages/ui" or "src/components". Test directories are left out, so tests without a
+// matching file end up with the code next to them
+function getDirectoryGroup(filePath: string) {
+  const directories = filePath
+    .split("/")
+    .slice(0, -1)
+    .filter((directory) => !TEST_DIRECTORIES.includes(directory));
+
+  return directories.length ? directories.slice(0, 2).join("/") : ".";
+}
+
+function isInverse(diff: SuggestionDiff, laterDiff: SuggestionDiff) {
+  if (
+    diff.type !== "modify" ||
+    laterDiff.type !== "modify" ||
+    !diff.lines?.length ||
+    !laterDiff.lines?.length
+  ) {
+    return false;
+  }
+
+  const invertedLines = laterDiff.lines
+    .map((line) => (line[0] === "+" ? "-" : "+") + line.substring(1))
+    .sort();
+
+  return String(diff.lines.slice().sort()) === String(invertedLines);
+}
+
+// Changes that are undone by a later change, like a file added and later deleted or a debug line
+// added and later removed. They are only cancelled when no other change depends on them
+function getCancellingDiffs(diffs: SuggestionDiff[]) {
+  const cancelling = new Set<number>();
+  const isDependedOn = (indexes: number[]) =>
+    diffs.some(
+      (diff) =>
+        !indexes.includes(diff.index) &&
+        diff.dependencies.some((dependency) => indexes.includes(dependency))
+    );
+
+  for (const diff of diffs) {
+    if (cancelling.has(diff.index)) {
+      continue;
+    }
+
+    const laterDiffs = diffs.filter(
+      (laterDiff) =>
+        laterDiff.filePath === diff.filePath &&
+        laterDiff.index > diff.index &&
+        !cancelling.has(laterDiff.index)
+    );
+
+    if (diff.type === "add") {
+      const deleteDiff = laterDiffs.find(
+        (laterDiff) => laterDiff.type === "delete"
+      );
+      // Everything between adding and deleting the file is cancelled as well
+      const indexes = [
+        diff.index,
+        ...laterDiffs
+          .filter(
+            (laterDiff) => deleteDiff && laterDiff.index <= deleteDiff.index
+          )
+          .map((laterDiff) => laterDiff.index),
+      ];
+
+      if (deleteDiff && !isDependedOn(indexes)) {
+        indexes.forEach((index) => cancelling.add(index));
+      }
+
+      continue;
+    }
+
+    const inverseDiff = laterDiffs.find((laterDiff) =>
+      isInverse(diff, laterDiff)
+    );
+
+    if (inverseDiff && !isDependedOn([diff.index, inverseDiff.index])) {
+      cancelling.add(diff.index);
+      cancelling.add(inverseDiff.index);
+    }
+  }
+
+  return cancelling;
+}
+
+function getCommitMessage(group: string, diffs: SuggestionDiff[]) {
+  if (group === CHORE_GROUP) {
+    return "chore: Update dependencies and configuration";
+  }
+
+  const name = group === "." ? "project root" : group;
+
+  return diffs.every((diff) => diff.type === "add")
+    ? `Add ${name}`
+    : `Update ${name}`;
+}
+
+// Suggests commits without sending any code out. Lockfiles and configuration go into a chore commit,
+// other changes are grouped by package or directory with their tests, and changes cancelling
+// each other out are dropped
+export function getHeuristicSuggestions(diffs: SuggestionDiff[]): Suggestions {
+  const cancelling = getCancellingDiffs(diffs);
+  const keptDiffs = diffs.filter((diff) => !cancelling.has(diff.index));
+  const groupByFilePath = new Map<string, string>();
+
+  for (const { filePath } of keptDiffs) {
+    if (LOCKFILE_REGEXP.test(filePath) || CONFIG_REGEXP.test(filePath)) {
+      groupByFilePath.set(filePath, CHORE_GROUP);
+    } else if (!isTestFile(filePath)) {
+      groupByFilePath.set(filePath, getDirectoryGroup(filePath));
+    }
+  }
+
+  for (const { filePath } of keptDiffs) {
+    if (groupByFilePath.has(filePath)) {
+      continue;
+    }
+
+    const moduleName = getModuleName(filePath);
+    const testedFilePath = Array.from(groupByFilePath.keys()).find(
+      (otherFilePath) =>
+        !isTestFile(otherFilePath) &&
+        getModuleName(otherFilePath) === moduleName
+    );
+
+    groupByFilePath.set(
+      filePath,
+      testedFilePath
+        ? groupByFilePath.get(testedFilePath)!
+        : getDirectoryGroup(filePath)
+    );
+  }
+
+  // Groups are ordered by their oldest change, from oldest to newest
+  const groups: string[] = [];
+
+  for (const diff of keptDiffs.slice().sort((a, b) => a.index - b.index)) {
+    const group = groupByFilePath.get(diff.filePath)!;
+
+    if (!groups.includes(group)) {
+      groups.push(group);
+    }
+  }
+
+  const positionByIndex = new Map(
+    keptDiffs.map((diff) => [
+      diff.index,
+      groups.indexOf(groupByFilePath.get(diff.filePath)!),
+    ])
+  );
+
+  // A change can not be in an older commit than the changes it depends on, so it moves
+  // to the newest commit of its dependencies. Moving a change can move its dependents as well
+  let hasMoved = true;
+
+  while (hasMoved) {
+    hasMoved = false;
+
+    for (const diff of keptDiffs) {
+      const position = positionByIndex.get(diff.index)!;
+      const minPosition = Math.max(
+        position,
+        ...diff.dependencies.map(
+          (dependency) => positionByIndex.get(dependency) ?? -1
+        )
+      );
+
+      if (minPosition > position) {
+        positionByIndex.set(diff.index, minPosition);
+        hasMoved = true;
+      }
+    }
+  }
+
+  const commitGroups = groups
+    .map((group, position) => ({
+      group,
+      diffs: keptDiffs.filter(
+        (diff) => positionByIndex.get(diff.index) === position
+      ),
+    }))
+    .filter(({ diffs }) => diffs.length)
+    // Commits are from newest to oldest
+    .reverse();
+
+  return {
+    commits: commitGroups.map(({ group, diffs }) =>
+      getCommitMessage(group, diffs)
+    ),
+    diffs: diffs.map((diff) => ({
+      ...diff,
+      isDropped: cancelling.has(diff.index),
+      commitIndex: Math.max(
+        0,
+        commitGroups.findIndex(({ diffs }) => diffs.includes(diff))
+      ),
+    })),
+  };
+}
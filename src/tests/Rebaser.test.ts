@@ -115,5 +115,518 @@ describe("Rebaser", () => {
 
       expect(rebaser.rebaseCommits).toMatchSnapshot();
     });
+    test("Should restore state", () => {
+      const diffs = [
+        {
+          commit: {
+            message: "Whatever",
+            hash: "123",
+          },
+          diff: fixtures["single_line_modification.diff"],
+        },
+      ];
+      const rebaser = new Rebaser(diffs);
+
+      rebaser.updateCommitMessage("123", "Something else");
+
+      const restoredRebaser = new Rebaser(diffs);
+
+      restoredRebaser.setState(rebaser.getState());
+
+      expect(restoredRebaser.rebaseCommits).toEqual(rebaser.rebaseCommits);
+      expect(() =>
+        restoredRebaser.setState({ ...rebaser.getState(), commits: [] })
+      ).toThrow();
+    });
+    test("should create a git-rebase-todo for moved commits", () => {
+      const rebaser = new Rebaser([
+        {
+          commit: {
+            message: "Whatever",
+            hash: "123",
+          },
+          diff: fixtures["single_line_modification.diff"],
+        },
+      ]);
+
+      rebaser.addCommit("New commit");
+      rebaser.moveChange(
+        "package.json",
+        rebaser.rebaseCommits[1].files[0].changes[0],
+        rebaser.rebaseCommits[0].hash
+      );
+
+      expect(rebaser.getRebaseTodo()).toEqual({
+        isExpressible: true,
+        todo: [
+          "pick 123 Whatever",
+          "exec printf '%s\\n' 'New commit' | git commit --amend --no-verify -F -",
+        ],
+      });
+
+      rebaser.moveChange(
+        "package.json",
+        rebaser.rebaseCommits[0].files[0].changes[0],
+        "trash"
+      );
+
+      expect(rebaser.getRebaseTodo()).toEqual({
+        isExpressible: true,
+        todo: ["drop 123 Whatever"],
+      });
+    });
+    test("should not create a git-rebase-todo for merge commits", () => {
+      const rebaser = new Rebaser([
+        {
+          commit: {
+            message: "Merge branch 'main'",
+            hash: "123",
+            isMerge: true,
+          },
+          diff: fixtures["single_line_modification.diff"],
+        },
+      ]);
+
+      expect(rebaser.getRebaseTodo()).toEqual({
+        isExpressible: false,
+        reasons: [
+          `"Merge branch 'main'" is a merge commit, which can not be picked`,
+        ],
+      });
+    });
+  });
+  describe("Dependencies", () => {
+    const createRebaser = () =>
+      new Rebaser([
+        {
+          commit: {
+            message: "Add file",
+            hash: "123",
+          },
+          diff: fixtures["added_file.diff"],
+        },
+        {
+          commit: {
+            message: "Change file",
+            hash: "456",
+          },
+          diff: fixtures["added_file_modification.diff"],
+        },
+      ]);
+    const getAddedFileChange = (rebaser: Rebaser) =>
+      rebaser.rebaseCommits[1].files[0].changes.find(
+        (change) => change.type === FileChangeType.ADD
+      )!;
+
+    test("should warn about changes set before dependencies", () => {
+      const rebaser = createRebaser();
+
+      rebaser.moveChanges([getAddedFileChange(rebaser)], "456", "warn");
+
+      expect(rebaser.rebaseCommits[1].hasChangeSetBeforeDependent).toBe(true);
+    });
+    test("should block moving changes after dependents", () => {
+      const rebaser = createRebaser();
+      const addedFileChange = getAddedFileChange(rebaser);
+
+      expect(() =>
+        rebaser.moveChanges([addedFileChange], "456", "block")
+      ).toThrow();
+      expect(rebaser.rebaseCommits[1].files[0].changes).toContainEqual(
+        addedFileChange
+      );
+      expect(rebaser.canUndo()).toBe(false);
+    });
+    test("should cascade dependents along with moved changes", () => {
+      const rebaser = createRebaser();
+      const cascadedChanges = rebaser.moveChanges(
+        [getAddedFileChange(rebaser)],
+        "456",
+        "cascade"
+      );
+
+      expect(cascadedChanges.map((change) => change.index)).toEqual([1]);
+      expect(rebaser.rebaseCommits[1].files).toEqual([]);
+      expect(
+        rebaser.rebaseCommits.some(
+          (commit) => commit.hasChangeSetBeforeDependent
+        )
+      ).toBe(false);
+    });
+    test("should refresh the commits when trashing a commit", () => {
+      const rebaser = createRebaser();
+
+      expect(rebaser.moveCommit("456", "trash", "block")).toEqual([]);
+      expect(rebaser.rebaseCommits.map((commit) => commit.hash)).toEqual([
+        "123",
+      ]);
+      expect(rebaser.canUndo()).toBe(true);
+    });
+    test("should undo and redo trashing a commit", () => {
+      const rebaser = createRebaser();
+      const rebaseCommits = rebaser.rebaseCommits;
+
+      rebaser.moveCommit("456", "trash");
+
+      expect(rebaser.undo()).toBe(true);
+      expect(rebaser.rebaseCommits).toEqual(rebaseCommits);
+
+      expect(rebaser.redo()).toBe(true);
+      expect(rebaser.rebaseCommits.map((commit) => commit.hash)).toEqual([
+        "123",
+      ]);
+    });
+  });
+  describe("Squashing", () => {
+    test("should squash a commit into another", () => {
+      const rebaser = new Rebaser([
+        {
+          commit: {
+            message: "Add file",
+            hash: "123",
+          },
+          diff: fixtures["added_file.diff"],
+        },
+        {
+          commit: {
+            message: "Change file",
+            hash: "456",
+          },
+          diff: fixtures["added_file_modification.diff"],
+        },
+      ]);
+
+      rebaser.squashCommit("456", "123", "Add file\n\nChange file");
+
+      expect(
+        rebaser.rebaseCommits.map((commit) => [
+          commit.message,
+          commit.files[0].changes.map((change) => change.index),
+        ])
+      ).toEqual([["Add file\n\nChange file", [0, 1, 2]]]);
+
+      rebaser.undo();
+
+      expect(rebaser.rebaseCommits.length).toBe(2);
+    });
+    test("should keep the author of the commit contributing the most changes", () => {
+      const rebaser = new Rebaser([
+        {
+          commit: {
+            message: "Add file",
+            hash: "123",
+            author: {
+              name: "Alice",
+              email: "alice@example.com",
+              date: "2024-01-01T00:00:00.000Z",
+            },
+          },
+          diff: fixtures["added_file.diff"],
+        },
+        {
+          commit: {
+            message: "Change file",
+            hash: "456",
+            author: {
+              name: "Bob",
+              email: "bob@example.com",
+              date: "2024-01-02T00:00:00.000Z",
+            },
+          },
+          diff: fixtures["added_file_modification.diff"],
+        },
+      ]);
+
+      rebaser.squashCommit("456", "123");
+
+      // Adding the file contributes two changes and changing it only one
+      expect(rebaser.rebaseCommits[0].author?.name).toBe("Alice");
+
+      rebaser.setCommitAuthor("123", "456");
+
+      expect(rebaser.rebaseCommits[0].author).toEqual({
+        name: "Bob",
+        email: "bob@example.com",
+        date: "2024-01-02T00:00:00.000Z",
+      });
+    });
+  });
+  describe("Formatting changes", () => {
+    test("should classify whitespace and reorder changes", () => {
+      const rebaser = new Rebaser([
+        {
+          commit: {
+            message: "Whatever",
+            hash: "123",
+          },
+          diff: fixtures["formatting_modification.diff"],
+        },
+      ]);
+
+      expect(
+        rebaser.rebaseCommits[0].files[0].changes.map(
+          (change) => change.formattingKind
+        )
+      ).toEqual(["reorder", "whitespace", undefined]);
+    });
+    test("should move formatting changes to a formatting commit", () => {
+      const rebaser = new Rebaser([
+        {
+          commit: {
+            message: "Whatever",
+            hash: "123",
+          },
+          diff: fixtures["formatting_modification.diff"],
+        },
+      ]);
+
+      rebaser.moveFormattingChanges("commit");
+
+      expect(
+        rebaser.rebaseCommits.map((commit) => [
+          commit.message,
+          commit.files[0].changes.length,
+        ])
+      ).toEqual([
+        ["style: formatting", 2],
+        ["Whatever", 1],
+      ]);
+    });
+    test("should move formatting changes to the trash", () => {
+      const rebaser = new Rebaser([
+        {
+          commit: {
+            message: "Whatever",
+            hash: "123",
+          },
+          diff: fixtures["formatting_modification.diff"],
+        },
+      ]);
+
+      rebaser.moveFormattingChanges("trash");
+
+      expect(rebaser.getTrash()[0].changes.length).toBe(2);
+      expect(rebaser.rebaseCommits[0].files[0].changes.length).toBe(1);
+    });
+  });
+  describe("Splitting commits", () => {
+    test("should split a commit into a commit per file", () => {
+      const rebaser = new Rebaser([
+        {
+          commit: {
+            message: "Whatever",
+            hash: "123",
+          },
+          diff: fixtures["two_files_modification.diff"],
+        },
+      ]);
+
+      rebaser.splitCommit("123", (fileName) => fileName);
+
+      expect(
+        rebaser.rebaseCommits.map((commit) => [
+          commit.message,
+          commit.files.map((file) => file.fileName),
+        ])
+      ).toEqual([
+        ["Whatever (src/index.ts)", ["src/index.ts"]],
+        ["Whatever", ["package.json"]],
+      ]);
+    });
+    test("should add the group name to the subject of the message", () => {
+      const rebaser = new Rebaser([
+        {
+          commit: {
+            message: "Whatever\n\nThe body",
+            hash: "123",
+          },
+          diff: fixtures["two_files_modification.diff"],
+        },
+      ]);
+
+      rebaser.splitCommit("123", (fileName) => fileName);
+
+      expect(rebaser.rebaseCommits[0].message).toBe(
+        "Whatever (src/index.ts)\n\nThe body"
+      );
+    });
+  });
+  describe("Plans", () => {
+    const diffs = [
+      {
+        commit: {
+          message: "Whatever",
+          hash: "123",
+        },
+        diff: fixtures["single_line_modification.diff"],
+      },
+    ];
+
+    test("should apply an exported plan", () => {
+      const rebaser = new Rebaser(diffs);
+
+      rebaser.addCommit("New commit");
+      rebaser.moveChange(
+        "package.json",
+        rebaser.rebaseCommits[1].files[0].changes[0],
+        rebaser.rebaseCommits[0].hash
+      );
+
+      const plan = rebaser.getPlan();
+      const importingRebaser = new Rebaser(diffs);
+
+      expect(importingRebaser.getPlanMismatches(plan)).toEqual([]);
+
+      importingRebaser.applyPlan(plan);
+
+      expect(
+        importingRebaser.rebaseCommits.map((commit) => [
+          commit.message,
+          commit.files.map((file) => file.fileName),
+        ])
+      ).toEqual([
+        ["New commit", ["package.json"]],
+        ["Whatever", []],
+      ]);
+    });
+    test("should apply an exported plan with split changes", () => {
+      const splitDiffs = [
+        {
+          commit: {
+            message: "Whatever",
+            hash: "123",
+          },
+          diff: fixtures["multi_line_addition.diff"],
+        },
+      ];
+      const rebaser = new Rebaser(splitDiffs);
+      const [change] = rebaser.rebaseCommits[0].files[0].changes;
+      const [, piece] = rebaser.splitChange("src/index.ts", change, [1]);
+
+      rebaser.moveChange("src/index.ts", piece, "trash");
+
+      const plan = JSON.parse(JSON.stringify(rebaser.getPlan()));
+      const importingRebaser = new Rebaser(splitDiffs);
+
+      expect(importingRebaser.getPlanMismatches(plan)).toEqual([]);
+
+      importingRebaser.applyPlan(plan);
+
+      expect(importingRebaser.getPlan()).toEqual(rebaser.getPlan());
+      expect(
+        importingRebaser.getTrash()[0].changes.map((change) => change.index)
+      ).toEqual([piece.index]);
+    });
+    test("should report changes not lining up with the plan", () => {
+      const rebaser = new Rebaser(diffs);
+
+      expect(
+        rebaser.getPlanMismatches({
+          version: 1,
+          commits: [
+            {
+              message: "Whatever",
+              changes: [{ index: 1, path: "package.json" }],
+            },
+          ],
+          trash: [],
+        })
+      ).toEqual([
+        "Change 1 in package.json does not exist",
+        "Change 0 in package.json is not part of the plan",
+      ]);
+    });
+  });
+  describe("Splitting changes", () => {
+    const document = `line1\nline2\nline3`;
+    const createRebaser = () =>
+      new Rebaser([
+        {
+          commit: {
+            message: "Whatever",
+            hash: "123",
+          },
+          diff: fixtures["multi_line_addition.diff"],
+        },
+      ]);
+    const applyCommittedChanges = (rebaser: Rebaser) =>
+      rebaser.applyChanges(
+        document,
+        rebaser
+          .getChangesForFile("src/index.ts")
+          .filter((change) => change.hash !== "trash")
+      );
+
+    test("should apply split changes like the original change", () => {
+      const rebaser = createRebaser();
+      const [change] = rebaser.rebaseCommits[0].files[0].changes;
+      const pieces = rebaser.splitChange("src/index.ts", change, [1]);
+
+      expect(pieces.map((piece) => piece.index)).toEqual([0, 1]);
+      expect(applyCommittedChanges(rebaser)).toBe(
+        `line1\nline2\nconst fix = true;\nconsole.log("debug");\nline3`
+      );
+    });
+    test("should move a split line to the trash", () => {
+      const rebaser = createRebaser();
+      const [change] = rebaser.rebaseCommits[0].files[0].changes;
+      const [fix, debug] = rebaser.splitChange("src/index.ts", change, [1]);
+
+      rebaser.moveChange("src/index.ts", debug, "trash");
+      expect(applyCommittedChanges(rebaser)).toBe(
+        `line1\nline2\nconst fix = true;\nline3`
+      );
+
+      rebaser.moveChange("src/index.ts", debug, "123");
+      rebaser.moveChange("src/index.ts", fix, "trash");
+      expect(applyCommittedChanges(rebaser)).toBe(
+        `line1\nline2\nconsole.log("debug");\nline3`
+      );
+    });
+    test("should not create a git-rebase-todo for split commits", () => {
+      const rebaser = createRebaser();
+      const [change] = rebaser.rebaseCommits[0].files[0].changes;
+      const [, debug] = rebaser.splitChange("src/index.ts", change, [1]);
+
+      rebaser.moveChange("src/index.ts", debug, "trash");
+
+      expect(rebaser.getRebaseTodo()).toEqual({
+        isExpressible: false,
+        reasons: [
+          'The changes of "Whatever" are split across multiple commits',
+        ],
+      });
+    });
+    test("should undo and redo a split", () => {
+      const rebaser = createRebaser();
+      const [change] = rebaser.rebaseCommits[0].files[0].changes;
+
+      rebaser.splitChange("src/index.ts", change, [1]);
+      expect(rebaser.rebaseCommits[0].files[0].changes.length).toBe(2);
+
+      expect(rebaser.undo()).toBe(true);
+      expect(rebaser.rebaseCommits[0].files[0].changes.length).toBe(1);
+      expect(rebaser.undo()).toBe(false);
+
+      expect(rebaser.redo()).toBe(true);
+      expect(rebaser.rebaseCommits[0].files[0].changes.length).toBe(2);
+      expect(applyCommittedChanges(rebaser)).toBe(
+        `line1\nline2\nconst fix = true;\nconsole.log("debug");\nline3`
+      );
+    });
+    test("should split changes by selected lines", () => {
+      const rebaser = createRebaser();
+      const pieces = rebaser.splitChangesBySelection(
+        "src/index.ts",
+        "123",
+        { from: 3, to: 3 },
+        "modified"
+      );
+
+      expect(pieces.map((piece) => piece.modifications)).toEqual([
+        ["+const fix = true;"],
+        ['+console.log("debug");'],
+      ]);
+    });
   });
 });
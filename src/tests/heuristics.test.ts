@@ -0,0 +1,188 @@
+import { describe, test, expect } from "vitest";
+import { getHeuristicSuggestions } from "../heuristics";
+
+describe("Heuristic suggestions", () => {
+  test("should group changes by directory with their tests", () => {
+    const suggestions = getHeuristicSuggestions([
+      {
+        filePath: "src/components/Button.tsx",
+        index: 0,
+        dependencies: [],
+        type: "add",
+        isDropped: false,
+      },
+      {
+        filePath: "src/utils/format.ts",
+        index: 1,
+        dependencies: [],
+        type: "modify",
+        isDropped: false,
+        lines: ["-a", "+b"],
+      },
+      {
+        filePath: "src/tests/Button.test.tsx",
+        index: 2,
+        dependencies: [],
+        type: "add",
+        isDropped: false,
+      },
+    ]);
+
+    expect(suggestions.commits).toEqual([
+      "Update src/utils",
+      "Add src/components",
+    ]);
+    expect(suggestions.diffs.map((diff) => diff.commitIndex)).toEqual([
+      1, 0, 1,
+    ]);
+  });
+  test("should put lockfile and config changes in a chore commit", () => {
+    const suggestions = getHeuristicSuggestions([
+      {
+        filePath: "src/index.ts",
+        index: 0,
+        dependencies: [],
+        type: "modify",
+        isDropped: false,
+        lines: ["+a"],
+      },
+      {
+        filePath: "yarn.lock",
+        index: 1,
+        dependencies: [],
+        type: "modify",
+        isDropped: false,
+        lines: ["+b"],
+      },
+      {
+        filePath: ".eslintrc.json",
+        index: 2,
+        dependencies: [],
+        type: "modify",
+        isDropped: false,
+        lines: ["+c"],
+      },
+    ]);
+
+    expect(suggestions.commits).toEqual([
+      "chore: Update dependencies and configuration",
+      "Update src",
+    ]);
+    expect(suggestions.diffs.map((diff) => diff.commitIndex)).toEqual([
+      1, 0, 0,
+    ]);
+  });
+  test("should drop changes cancelling each other out", () => {
+    const suggestions = getHeuristicSuggestions([
+      {
+        filePath: "src/index.ts",
+        index: 0,
+        dependencies: [],
+        type: "modify",
+        isDropped: false,
+        lines: ["+console.log(value)"],
+      },
+      {
+        filePath: "src/debug.ts",
+        index: 1,
+        dependencies: [],
+        type: "add",
+        isDropped: false,
+      },
+      {
+        filePath: "src/index.ts",
+        index: 2,
+        dependencies: [0],
+        type: "modify",
+        isDropped: false,
+        lines: ["-console.log(value)"],
+      },
+      {
+        filePath: "src/debug.ts",
+        index: 3,
+        dependencies: [1],
+        type: "delete",
+        isDropped: false,
+      },
+      {
+        filePath: "src/index.ts",
+        index: 4,
+        dependencies: [],
+        type: "modify",
+        isDropped: false,
+        lines: ["+export {}"],
+      },
+    ]);
+
+    expect(suggestions.commits).toEqual(["Update src"]);
+    expect(suggestions.diffs.map((diff) => diff.isDropped)).toEqual([
+      true,
+      true,
+      true,
+      true,
+      false,
+    ]);
+  });
+  test("should not drop changes other changes depend on", () => {
+    const suggestions = getHeuristicSuggestions([
+      {
+        filePath: "src/index.ts",
+        index: 0,
+        dependencies: [],
+        type: "modify",
+        isDropped: false,
+        lines: ["+a"],
+      },
+      {
+        filePath: "src/index.ts",
+        index: 1,
+        dependencies: [0],
+        type: "modify",
+        isDropped: false,
+        lines: ["+b"],
+      },
+      {
+        filePath: "src/index.ts",
+        index: 2,
+        dependencies: [0],
+        type: "modify",
+        isDropped: false,
+        lines: ["-a"],
+      },
+    ]);
+
+    expect(suggestions.diffs.every((diff) => !diff.isDropped)).toBe(true);
+  });
+  test("should keep changes in commits after the changes they depend on", () => {
+    const suggestions = getHeuristicSuggestions([
+      {
+        filePath: "lib/old.ts",
+        index: 0,
+        dependencies: [],
+        type: "modify",
+        isDropped: false,
+        lines: ["+a"],
+      },
+      {
+        filePath: "src/new.ts",
+        index: 1,
+        dependencies: [],
+        type: "modify",
+        isDropped: false,
+        lines: ["+b"],
+      },
+      {
+        filePath: "lib/new.ts",
+        index: 2,
+        dependencies: [1],
+        type: "rename",
+        isDropped: false,
+      },
+    ]);
+
+    expect(suggestions.commits).toEqual(["Update src", "Update lib"]);
+    expect(suggestions.diffs.map((diff) => diff.commitIndex)).toEqual([
+      1, 0, 0,
+    ]);
+  });
+});
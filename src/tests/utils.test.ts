@@ -0,0 +1,148 @@
+import { describe, test, expect } from "vitest";
+import { FileChange, FileModifications } from "../Rebaser";
+import {
+  FileChangeType,
+  getCommitMessageErrors,
+  getFirstParentCommits,
+  getFormattingKind,
+  globToRegExp,
+  parseGitVersion,
+} from "../utils";
+
+describe("utils", () => {
+  describe("globToRegExp", () => {
+    test.each([
+      ["*.md", "README.md", true],
+      ["*.md", "docs/README.md", false],
+      ["**/*.md", "README.md", true],
+      ["**/*.md", "docs/guides/README.md", true],
+      ["src/**", "src/utils/index.ts", true],
+      ["src/**", "lib/index.ts", false],
+      ["**/*.{test,spec}.*", "src/tests/Rebaser.test.ts", true],
+      ["**/*.{test,spec}.*", "src/button.spec.tsx", true],
+      ["**/*.{test,spec}.*", "src/testing.ts", false],
+      ["file?.ts", "file1.ts", true],
+      ["file?.ts", "file10.ts", false],
+      ["file.ts", "fileXts", false],
+    ])("should match %s against %s", (glob, fileName, isMatch) => {
+      expect(globToRegExp(glob).test(fileName)).toBe(isMatch);
+    });
+  });
+  describe("getFirstParentCommits", () => {
+    const createCommit = (hash: string, parents: string[]) => ({
+      hash,
+      message: hash,
+      parents,
+    });
+
+    test("should walk the commits from the tip", () => {
+      const commits = [
+        createCommit("c", ["b"]),
+        createCommit("b", ["a"]),
+        createCommit("a", ["base"]),
+      ];
+
+      expect(getFirstParentCommits(commits)).toEqual(commits);
+    });
+    test("should leave out commits brought in by merges", () => {
+      const commits = [
+        createCommit("merge", ["b", "upstream-2"]),
+        createCommit("upstream-2", ["upstream-1"]),
+        createCommit("b", ["a"]),
+        createCommit("upstream-1", ["base"]),
+        createCommit("a", ["base"]),
+      ];
+
+      expect(
+        getFirstParentCommits(commits).map((commit) => commit.hash)
+      ).toEqual(["merge", "b", "a"]);
+    });
+    test("should give no commits for an empty log", () => {
+      expect(getFirstParentCommits([])).toEqual([]);
+    });
+  });
+  describe("parseGitVersion", () => {
+    test.each([
+      ["git version 2.38.0", { major: 2, minor: 38 }],
+      ["git version 2.39.3 (Apple Git-146)", { major: 2, minor: 39 }],
+      ["git version 2.45.1.windows.1\n", { major: 2, minor: 45 }],
+    ])("should read the version of %s", (output, version) => {
+      expect(parseGitVersion(output)).toEqual(version);
+    });
+    test("should throw when there is no version", () => {
+      expect(() => parseGitVersion("command not found")).toThrow();
+    });
+  });
+  describe("getCommitMessageErrors", () => {
+    test.each([
+      ["feat: Add file", {}, 0],
+      ["Add file", { conventionalCommits: true }, 1],
+      ["feat: Add file", { conventionalCommits: true }, 0],
+      ["feat(scope)!: Add file", { conventionalCommits: true }, 0],
+      ["feat:Add file", { conventionalCommits: true }, 1],
+      ["feat: Add file\n\nThe body", { conventionalCommits: true }, 0],
+      ["feat: Add file\nThe body", { conventionalCommits: true }, 1],
+      ["Add file", { maxSubjectLength: 8 }, 0],
+      ["Add a file", { maxSubjectLength: 8 }, 1],
+      [
+        "Add file\n\nA body longer than the subject",
+        { maxSubjectLength: 8 },
+        0,
+      ],
+      ["Add file", { pattern: "^[A-Z]" }, 0],
+      ["add file", { pattern: "^[A-Z]" }, 1],
+      ["Add file\n\nCloses NICE-12", { issueKey: "[A-Z]+-\\d+" }, 0],
+      ["Add file", { issueKey: "[A-Z]+-\\d+" }, 1],
+      ["add a file", { conventionalCommits: true, maxSubjectLength: 8 }, 2],
+    ])("should check %j against %j", (message, rules, errorsCount) => {
+      expect(getCommitMessageErrors(message, rules)).toHaveLength(errorsCount);
+    });
+    test("should throw for an invalid pattern", () => {
+      expect(() =>
+        getCommitMessageErrors("Add file", { pattern: "(" })
+      ).toThrow('Invalid pattern "(" in nicePr.commitMessageRules');
+    });
+  });
+  describe("getFormattingKind", () => {
+    const createChange = (
+      path: string,
+      modifications: string[]
+    ): FileChange => ({
+      type: FileChangeType.MODIFY,
+      dependencies: [],
+      fileType: "text",
+      hash: "123",
+      index: 0,
+      modifications: modifications as FileModifications,
+      linesChangedCount: 0,
+      modificationRange: [0, 0],
+      originalHash: "123",
+      path,
+    });
+
+    test.each([
+      ["index.ts", ["-foo(a,b)", "+foo(a, b)"], "whitespace"],
+      ["index.ts", ["-  return x;", "+    return x;  "], "whitespace"],
+      [
+        "index.ts",
+        ["-foo(a, b)", "+foo(", "+  a,", "+  b", "+)"],
+        "whitespace",
+      ],
+      ["index.ts", ["-return x", "+returnx"], undefined],
+      ["index.ts", ["-a + +b", "+a ++b"], undefined],
+      ["index.ts", ['-const text = "a b"', '+const text = "ab"'], undefined],
+      ["index.ts", ["-a();", "-b();", "+b();", "+a();"], "reorder"],
+      ["index.ts", ["-a();", "+b();"], undefined],
+      ["script.py", ["-x = 1 ", "+x = 1"], "whitespace"],
+      ["script.py", ["-    return x", "+return x"], undefined],
+      ["config.yaml", ["-  key: value", "+key: value"], undefined],
+      ["Makefile", ["-\tbuild", "+    build"], undefined],
+      ["script.py", ["-    a()", "-b()", "+b()", "+    a()"], "reorder"],
+      ["script.py", ["-    a()", "-b()", "+    b()", "+a()"], undefined],
+    ])("should classify %s %j as %s", (path, modifications, formattingKind) => {
+      expect(getFormattingKind(createChange(path, modifications))).toBe(
+        formattingKind
+      );
+    });
+  });
+});
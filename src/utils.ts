@@ -5,10 +5,13 @@ import { ParsedDiff } from "diff";
 import {
   FileChange,
   FileModifications,
+  FormattingKind,
   ModifyTextFileChange,
   RebaseCommitFileChange,
 } from "./Rebaser.js";
 import { AnyChunk } from "parse-git-diff";
+import { readFile } from "fs/promises";
+import { join, resolve } from "path";
 
 const execAsync = promisify(cp.exec);
 
@@ -37,6 +40,154 @@ export async function executeGitCommandWithBinaryOutput(
   return stdout;
 }
 
+// Writes the input to stdin of the command, which can also use a separate index than the one of the user
+export async function executeGitCommandWithInput(
+  repo: Repository,
+  command: string,
+  {
+    input,
+    indexFile,
+    env,
+  }: {
+    input?: string | Buffer;
+    indexFile?: string;
+    env?: Record<string, string>;
+  }
+): Promise<string> {
+  const execution = execAsync(`git ${command}`, {
+    cwd: repo.rootUri.fsPath,
+    env: {
+      ...process.env,
+      ...(indexFile ? { GIT_INDEX_FILE: indexFile } : {}),
+      ...env,
+    },
+    // 20MB max buffer
+    maxBuffer: 20 * 10 * 1024 * 1024,
+  });
+
+  execution.child.stdin?.end(input);
+
+  const { stdout } = await execution;
+
+  return stdout;
+}
+
+// Gives the mode and object hash of a file in a tree, or in the index when no tree is passed
+export async function getGitFileEntry(
+  repo: Repository,
+  fileName: string,
+  { treeish, indexFile }: { treeish?: string; indexFile?: string } = {}
+): Promise<{ mode: string; hash: string } | undefined> {
+  const output = await executeGitCommandWithInput(
+    repo,
+    treeish
+      ? `ls-tree ${treeish} -- "${fileName}"`
+      : `ls-files --stage -- "${fileName}"`,
+    { indexFile }
+  );
+
+  if (!output) {
+    return undefined;
+  }
+
+  // Trees gives "<mode> <type> <hash>" and the index "<mode> <hash> <stage>"
+  const [mode, ...details] = output.split("\t")[0].split(" ");
+
+  return { mode, hash: treeish ? details[1] : details[0] };
+}
+
+// Cleans up a message like git does by default, removing comments, trailing whitespace and
+// consecutive or surrounding empty lines
+export function cleanupCommitMessage(message: string) {
+  return message
+    .split("\n")
+    .filter((line) => !line.startsWith("#"))
+    .map((line) => line.trimEnd())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .replace(/^\n+|\n+$/g, "");
+}
+
+export function getCommitSubject(message: string) {
+  return message.split("\n")[0];
+}
+
+export type CommitMessageRules = {
+  conventionalCommits?: boolean;
+  pattern?: string;
+  maxSubjectLength?: number;
+  issueKey?: string;
+};
+
+const CONVENTIONAL_COMMIT_SUBJECT_REGEXP = /^[a-z]+(\([^()\n]+\))?!?: \S/i;
+
+function matchesPattern(pattern: string, text: string) {
+  try {
+    return new RegExp(pattern).test(text);
+  } catch {
+    throw new Error(
+      `Invalid pattern "${pattern}" in nicePr.commitMessageRules`
+    );
+  }
+}
+
+// Gives an error for every configured rule the commit message breaks
+export function getCommitMessageErrors(
+  message: string,
+  rules: CommitMessageRules
+) {
+  const subject = getCommitSubject(message);
+  const errors: string[] = [];
+
+  if (
+    rules.conventionalCommits &&
+    !CONVENTIONAL_COMMIT_SUBJECT_REGEXP.test(subject)
+  ) {
+    errors.push(
+      'The subject does not follow Conventional Commits, like "feat(scope): description"'
+    );
+  }
+
+  // Conventional Commits starts the body one blank line after the subject
+  if (rules.conventionalCommits && message.split("\n")[1]?.trim()) {
+    errors.push("The subject has to be followed by a blank line");
+  }
+
+  if (rules.pattern && !matchesPattern(rules.pattern, message)) {
+    errors.push(`The message does not match ${rules.pattern}`);
+  }
+
+  if (rules.maxSubjectLength && subject.length > rules.maxSubjectLength) {
+    errors.push(
+      `The subject is ${subject.length} characters, but can at most be ${rules.maxSubjectLength}`
+    );
+  }
+
+  if (rules.issueKey && !matchesPattern(rules.issueKey, message)) {
+    errors.push(
+      `The message does not reference an issue like ${rules.issueKey}`
+    );
+  }
+
+  return errors;
+}
+
+// Runs a command in a shell, passing on its output as it comes and resolving with the exit code
+export function runShellCommand(
+  command: string,
+  cwd: string,
+  onOutput: (data: string) => void
+) {
+  return new Promise<number>((resolve, reject) => {
+    const child = cp.spawn(command, { cwd, shell: true });
+
+    child.stdout.on("data", (data) => onOutput(String(data)));
+    child.stderr.on("data", (data) => onOutput(String(data)));
+    child.on("error", reject);
+    child.on("close", (code) => resolve(code ?? 1));
+  });
+}
+
 export async function getGitDiff(
   repo: Repository,
   fromHash: string,
@@ -133,6 +284,7 @@ export function mapChunkToFileChange({
   index: number;
   dependencies: number[];
 }): FileChange {
+  // Merge commits are linearized into two sided diffs, so combined chunks should never occur
   if (chunk.type === "CombinedChunk") {
     throw new Error("Combined chunk not supported");
   }
@@ -211,6 +363,119 @@ export function isTextFileChange(
   return change.type === FileChangeType.MODIFY && change.fileType === "text";
 }
 
+export function isAdditionOnlyChange(change: FileChange) {
+  return (
+    isTextFileChange(change) &&
+    change.modifications.every((modification) => modification.startsWith("+"))
+  );
+}
+
+// Changes only touching whitespace or only reordering lines, like sorting imports, are formatting.
+// Line breaks count as whitespace, so wrapping lines is formatting as well
+// Files where the indentation is part of the code, so changing it is not formatting
+const INDENTATION_SENSITIVE_FILE_REGEXP =
+  /(\.(py|pyi|pyw|ya?ml|coffee|pug|jade|sass|styl|haml|slim|nim|mk)|(^|\/)(GNUm|M|m)akefile)$/;
+
+export function getFormattingKind(
+  change: FileChange
+): FormattingKind | undefined {
+  if (!isTextFileChange(change) || !change.modifications.length) {
+    return undefined;
+  }
+
+  const removed = change.modifications
+    .filter((modification) => modification.startsWith("-"))
+    .map((modification) => modification.substring(1));
+  const added = change.modifications
+    .filter((modification) => modification.startsWith("+"))
+    .map((modification) => modification.substring(1));
+  const isIndentationSensitive = INDENTATION_SENSITIVE_FILE_REGEXP.test(
+    change.path
+  );
+  // Words and runs of other characters, so whitespace separating them still counts, like in
+  // "return x" and "returnx" or "a + +b" and "a ++b"
+  const getTokens = (lines: string[]) =>
+    JSON.stringify(lines.join("\n").match(/\w+|[^\w\s]+/g) ?? []);
+  const getIndentations = (lines: string[]) =>
+    JSON.stringify(
+      lines.filter((line) => line.trim()).map((line) => line.match(/^\s*/)![0])
+    );
+  const trimLine = (line: string) =>
+    isIndentationSensitive ? line.trimEnd() : line.trim();
+  const sortLines = (lines: string[]) =>
+    JSON.stringify(lines.map(trimLine).sort());
+
+  if (
+    getTokens(removed) === getTokens(added) &&
+    (!isIndentationSensitive ||
+      getIndentations(removed) === getIndentations(added))
+  ) {
+    return "whitespace";
+  }
+
+  if (sortLines(removed) === sortLines(added)) {
+    return "reorder";
+  }
+
+  return undefined;
+}
+
+// A row pairs a removed line with the added line at the same position of a text change. This
+// is the smallest unit a change can be split into, keeping replaced lines with their replacement
+export function getModificationRows(change: ModifyTextFileChange) {
+  const removed = change.modifications.filter((modification) =>
+    modification.startsWith("-")
+  );
+  const added = change.modifications.filter((modification) =>
+    modification.startsWith("+")
+  );
+
+  return Array.from(
+    { length: Math.max(removed.length, added.length) },
+    (_, index) => ({
+      removed: removed[index] as FileModifications[number] | undefined,
+      added: added[index] as FileModifications[number] | undefined,
+    })
+  );
+}
+
+// Converts a glob pattern to a regular expression, supporting "**", "*", "?" and "{a,b}"
+export function globToRegExp(glob: string) {
+  let pattern = "";
+  let braceDepth = 0;
+
+  for (let index = 0; index < glob.length; index++) {
+    const char = glob[index];
+
+    if (char === "*" && glob[index + 1] === "*") {
+      // "**/" also matches no directories at all
+      if (glob[index + 2] === "/") {
+        pattern += "(?:.*/)?";
+        index += 2;
+      } else {
+        pattern += ".*";
+        index++;
+      }
+    } else if (char === "*") {
+      pattern += "[^/]*";
+    } else if (char === "?") {
+      pattern += "[^/]";
+    } else if (char === "{") {
+      pattern += "(?:";
+      braceDepth++;
+    } else if (char === "}" && braceDepth) {
+      pattern += ")";
+      braceDepth--;
+    } else if (char === "," && braceDepth) {
+      pattern += "|";
+    } else {
+      pattern += char.replace(/[.+^$()|[\]\\{}]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(`^${pattern}$`);
+}
+
 export function isLineOverlappingWithChange(
   line: number,
   previousChange: FileChange
@@ -226,13 +491,230 @@ export function isLineOverlappingWithChange(
 
 export async function getBranchCommits(
   repo: Repository,
-  branch: string
+  branch: string,
+  targetBranch: string,
+  remote: string
 ): Promise<Commit[]> {
-  if (branch === "main" || branch === "master") {
+  if (branch === targetBranch) {
     return [];
   }
 
-  return repo.log({
-    range: `origin/main..${branch}`,
+  const commits = await repo.log({
+    range: `${remote}/${targetBranch}..${branch}`,
   });
+
+  return getFirstParentCommits(commits);
+}
+
+async function getGitConfig(repo: Repository, key: string) {
+  const value = (
+    await executeGitCommand(repo, `config --get ${key}`)
+      // Not being configured is an error
+      .catch(() => "")
+  ).trim();
+
+  return value || undefined;
+}
+
+// The remote to fetch the target branch from, which in a fork workflow is typically "upstream"
+export async function getBaseRemote(
+  repo: Repository,
+  branch: string,
+  configuredRemote?: string
+) {
+  return (
+    configuredRemote ||
+    (await getGitConfig(repo, `branch.${branch}.remote`)) ||
+    "origin"
+  );
+}
+
+// The remote to push the branch to, resolved in the same order as git does
+export async function getPushRemote(repo: Repository, branch: string) {
+  return (
+    (await getGitConfig(repo, `branch.${branch}.pushRemote`)) ||
+    (await getGitConfig(repo, "remote.pushDefault")) ||
+    (await getGitConfig(repo, `branch.${branch}.remote`)) ||
+    "origin"
+  );
+}
+
+// The names of the branches on the remote, without the remote prefix
+export async function getRemoteBranches(repo: Repository, remote: string) {
+  return (
+    await executeGitCommand(
+      repo,
+      `for-each-ref --format="%(refname:short)" refs/remotes/${remote}`
+    )
+  )
+    .split("\n")
+    .filter(Boolean)
+    .map((remoteBranch) => remoteBranch.substring(remote.length + 1))
+    .filter((remoteBranch) => remoteBranch !== "HEAD");
+}
+
+// Detects the branch on the remote the branch is based on. The default branch of the remote is preferred,
+// then the branch it was created from and lastly the remote branch with the closest merge base
+export async function detectTargetBranch(
+  repo: Repository,
+  branch: string,
+  remote: string
+): Promise<string> {
+  const remoteBranches = (await getRemoteBranches(repo, remote)).filter(
+    (remoteBranch) => remoteBranch !== branch
+  );
+
+  const defaultBranch = (
+    await executeGitCommand(
+      repo,
+      `symbolic-ref --short refs/remotes/${remote}/HEAD`
+    ).catch(() => "")
+  )
+    .trim()
+    .substring(remote.length + 1);
+
+  if (remoteBranches.includes(defaultBranch)) {
+    return defaultBranch;
+  }
+
+  // The oldest reflog entry of a branch is like "branch: Created from origin/develop"
+  const createdFrom = (
+    await executeGitCommand(
+      repo,
+      `reflog show --format=%gs refs/heads/${branch}`
+    ).catch(() => "")
+  )
+    .trim()
+    .split("\n")
+    .pop()
+    ?.match(/^branch: Created from (.+)$/)?.[1]
+    .replace(`${remote}/`, "");
+
+  if (createdFrom && remoteBranches.includes(createdFrom)) {
+    return createdFrom;
+  }
+
+  let closestBranch: { name: string; distance: number } | undefined;
+
+  for (const remoteBranch of remoteBranches) {
+    const distance = Number(
+      await executeGitCommand(
+        repo,
+        `rev-list --count ${remote}/${remoteBranch}..${branch}`
+      ).catch(() => NaN)
+    );
+
+    if (
+      !isNaN(distance) &&
+      (!closestBranch || distance < closestBranch.distance)
+    ) {
+      closestBranch = { name: remoteBranch, distance };
+    }
+  }
+
+  return closestBranch?.name ?? "main";
+}
+
+export type RebaseProgress = {
+  branch: string;
+  step: number;
+  total: number;
+  // The subject of the commit the rebase stopped at
+  subject?: string;
+};
+
+// Reads the state git keeps in the git directory while rebasing a branch, for both the merge and apply backends
+export async function getRebaseProgress(
+  repo: Repository
+): Promise<RebaseProgress | undefined> {
+  for (const [directory, stepFile, totalFile] of [
+    ["rebase-merge", "msgnum", "end"],
+    ["rebase-apply", "next", "last"],
+  ]) {
+    const path = resolve(
+      repo.rootUri.fsPath,
+      (
+        await executeGitCommand(repo, `rev-parse --git-path ${directory}`)
+      ).trim()
+    );
+    const readState = (file: string) =>
+      readFile(join(path, file), "utf8")
+        .then((content) => content.trim())
+        .catch(() => undefined);
+    const headName = await readState("head-name");
+
+    if (!headName?.startsWith("refs/heads/")) {
+      continue;
+    }
+
+    const subject = await executeGitCommand(
+      repo,
+      "log -1 --format=%s REBASE_HEAD"
+    ).catch(() => "");
+
+    return {
+      branch: headName.substring("refs/heads/".length),
+      step: Number(await readState(stepFile)),
+      total: Number(await readState(totalFile)),
+      subject: subject.trim() || undefined,
+    };
+  }
+
+  return undefined;
+}
+
+export async function getConflictedFiles(repo: Repository) {
+  return (await executeGitCommand(repo, "diff --name-only --diff-filter=U"))
+    .split("\n")
+    .filter(Boolean);
+}
+
+// The log of a range also includes commits brought in by merges, but we only want the commits
+// made on the branch itself, which is the first parent of every commit from the tip
+export function getFirstParentCommits(commits: Commit[]) {
+  const commitsByHash = new Map(commits.map((commit) => [commit.hash, commit]));
+  const parentHashes = new Set(commits.flatMap((commit) => commit.parents));
+  const firstParentCommits: Commit[] = [];
+  let commit = commits.find((commit) => !parentHashes.has(commit.hash));
+
+  while (commit) {
+    firstParentCommits.push(commit);
+    commit = commitsByHash.get(commit.parents[0]);
+  }
+
+  return firstParentCommits;
+}
+
+// Reads the version from the output of "git --version", like "git version 2.39.3 (Apple Git-146)"
+export function parseGitVersion(output: string) {
+  const match = output.match(/(\d+)\.(\d+)/);
+
+  if (!match) {
+    throw new Error(`Could not read the git version from "${output.trim()}"`);
+  }
+
+  return { major: Number(match[1]), minor: Number(match[2]) };
+}
+
+export async function getGitVersion(repo: Repository) {
+  return parseGitVersion(await executeGitCommand(repo, "--version"));
+}
+
+// Gives the tree of the commit as if the base was merged into it, or undefined if it conflicts.
+// It needs "git merge-tree --write-tree", which came with git 2.38
+export async function getTreeMergedWithBase(
+  repo: Repository,
+  hash: string,
+  baseHash: string
+): Promise<string | undefined> {
+  try {
+    const output = await executeGitCommand(
+      repo,
+      `merge-tree --write-tree ${baseHash} ${hash}`
+    );
+
+    return output.split("\n")[0].trim();
+  } catch {
+    return undefined;
+  }
 }